@@ -1,117 +1,226 @@
 import path from 'path';
 import fs from 'fs';
 import moment from 'moment';
-import { parse } from 'csv-parse';
-import config from './config';
+import config, { getResultsDirectory } from './config';
+import { loadCandles } from './candle-cache';
+import {
+  CandleIntegrityError,
+  describeIntegrityIssues,
+  repairCandles,
+  saveIntegrityReport,
+  validateCandles,
+} from './candle-validator';
+import { CostModel } from './cost-model';
+import { PositionSizer } from './position-sizer';
+import { calculatePerformanceMetrics, TradeRecord } from './metrics';
+import { MonteCarloAnalyzer } from './monte-carlo';
+import { createStrategy, Strategy, StrategyContext, LegendSignal } from './strategies';
+import { findUnusedConfig, resolveStrategyParameters, reportUnusedConfig } from './config-validation';
+import { createCandleSource } from './candle-sources';
+import { resampleCandles } from './resampler';
+import { getWarmupCandles } from './volatility';
 import {
   ThresholdResult,
   NullableThresholdResult,
   CandleData,
-  Entry,
   TradingConfig,
-  BacktestResult
+  BacktestResult,
+  BacktestStats,
+  SymbolInfo,
+  EquityPoint,
+  PerformanceMetrics,
+  EffectiveStrategyParameters,
+  CandleIntegrityReport,
+  HedgeCycle,
+  PositionInfo
 } from './interfaces';
 
+interface TradeIndices {
+  entryIndex: number;
+  exitIndex: number;
+  dynamicThreshold: number;
+}
+
+// Notional a position holds while open, across all hedge legs
+function getPositionNotional(position: PositionInfo): number {
+  if (position.rejectedReason) {
+    return 0;
+  }
+  return (position.hedgeLegs ?? []).reduce((sum, leg) => sum + leg.notional, position.notional);
+}
+
+// Account PnL of a hedge cycle from the rounded quantity of each leg. Costs
+// scale with leg size, so they are taken pro rata to the entry quantity.
+function getHedgePnl(hedge: HedgeCycle, entryPrice: number, position: PositionInfo): number {
+  const quantities = [position.quantity, ...(position.hedgeLegs ?? []).map((leg) => leg.quantity)];
+  const grossPnl = hedge.legs.reduce((sum, leg, i) => {
+    const signedQuantity = leg.side === 'LONG' ? quantities[i] : -quantities[i];
+    return sum + signedQuantity * (hedge.closePrice - leg.price);
+  }, 0);
+  return grossPnl - position.quantity * entryPrice * (hedge.costs.total / 100);
+}
+
 export class Backtester {
   private candles: CandleData[] = [];
   private thresholdResults: ThresholdResult[] = [];
   private totalCandles: number = 0;
+  // Leading candles that only feed the lookback, see setCandles
+  private warmupCandles: number = 0;
+  private quiet = false;
   private legendCandles: number = 0;
   private successfulTrades = 0;
-  private symbolInfo?: {
-    symbol: string;
-    baseAsset: string;
-    quoteAsset: string;
-    baseAssetPrecision: number;
-    quotePrecision: number;
-    pricePrecision: number;
-    quantityPrecision: number;
-  };
+  private costModel: CostModel;
+  private strategy: Strategy;
+  private parameters: EffectiveStrategyParameters;
+  private symbolInfo?: SymbolInfo;
+  private equityCurve: EquityPoint[] = [];
+  private warnings: string[] = [];
+  private dataIntegrity?: CandleIntegrityReport;
+  // Candle indices of each entered trade, used to replay them on the account
+  private tradeIndices: Map<ThresholdResult, TradeIndices> = new Map();
 
   constructor(
     private symbol: string,
     private runConfig: TradingConfig = config
-  ) {}
-
-  public setSymbolInfo(info: {
-    symbol: string;
-    baseAsset: string;
-    quoteAsset: string;
-    baseAssetPrecision: number;
-    quotePrecision: number;
-    pricePrecision: number;
-    quantityPrecision: number;
-  }) {
+  ) {
+    this.costModel = new CostModel(runConfig);
+    this.strategy = createStrategy(runConfig);
+    this.parameters = resolveStrategyParameters(runConfig);
+  }
+
+  private logProgress(...args: unknown[]): void {
+    if (!this.quiet) {
+      console.log(...args);
+    }
+  }
+
+  public setSymbolInfo(info: SymbolInfo) {
     this.symbolInfo = info;
   }
 
   async loadData(csvFilePath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const startDate = new Date(
-        this.runConfig.dataFetch.startDate.year,
-        this.runConfig.dataFetch.startDate.month - 1
-      );
-      const startTimestamp = startDate.getTime();
-
-      const endDate = this.runConfig.dataFetch.endDate
-        ? new Date(
-            this.runConfig.dataFetch.endDate.year,
-            this.runConfig.dataFetch.endDate.month - 1
-          )
-        : new Date();
-      const endTimestamp = endDate.getTime();
-
-      console.log(`Loading data from ${csvFilePath}`);
-      console.log(`Start date: ${startDate.toISOString()}`);
-      console.log(`End date: ${endDate.toISOString()}`);
-
-      const stream = fs.createReadStream(csvFilePath);
-      const parser = parse({
-        columns: true,
-        skip_empty_lines: true,
-      });
+    const startDate = new Date(
+      this.runConfig.dataFetch.startDate.year,
+      this.runConfig.dataFetch.startDate.month - 1
+    );
+    const startTimestamp = startDate.getTime();
+
+    const endDate = this.runConfig.dataFetch.endDate
+      ? new Date(
+          this.runConfig.dataFetch.endDate.year,
+          this.runConfig.dataFetch.endDate.month - 1
+        )
+      : new Date();
+    const endTimestamp = endDate.getTime();
+
+    console.log(`Loading data from ${csvFilePath}`);
+    console.log(`Start date: ${startDate.toISOString()}`);
+    console.log(`End date: ${endDate.toISOString()}`);
+
+    const candles = await loadCandles(csvFilePath, startTimestamp, endTimestamp, this.runConfig);
+    for (const candle of candles) {
+      this.candles.push(candle);
+    }
+    this.totalCandles += candles.length;
 
-      parser.on('readable', () => {
-        let row: any;
-        while ((row = parser.read()) !== null) {
-          const candleTimestamp = parseInt(row.open_time);
-
-          if (
-            candleTimestamp >= startTimestamp &&
-            candleTimestamp <= endTimestamp
-          ) {
-            const candle: CandleData = {
-              openTime: candleTimestamp,
-              open: parseFloat(row.open),
-              high: parseFloat(row.high),
-              low: parseFloat(row.low),
-              close: parseFloat(row.close),
-              volume: parseFloat(row.volume),
-              closeTime: parseInt(row.close_time),
-              quoteAssetVolume: parseFloat(row.quote_volume),
-              trades: parseInt(row.count),
-              takerBuyBaseAssetVolume: parseFloat(row.taker_buy_volume),
-              takerBuyQuoteAssetVolume: parseFloat(row.taker_buy_quote_volume),
-              ignore: parseInt(row.ignore)
-            };
-            this.candles.push(candle);
-            this.totalCandles++;
-          }
-        }
-      });
+    console.log(`Loaded ${this.totalCandles} candles from ${csvFilePath}`);
+  }
 
-      parser.on('error', (err) => {
-        console.error('Error parsing CSV:', err);
-        reject(err);
-      });
+  // Timeframe of the CSVs on disk; differs from the backtest timeframe when
+  // dataFetch.resampleFrom is set
+  private getSourceTimeframe(): string {
+    return this.runConfig.dataFetch.resampleFrom ?? this.runConfig.singleBacktest.timeframe;
+  }
 
-      parser.on('end', () => {
-        console.log(`Loaded ${this.totalCandles} candles from ${csvFilePath}`);
-        resolve();
-      });
+  // Runs the coverage and integrity checks on the loaded candles, then
+  // resamples them into the backtest timeframe when dataFetch.resampleFrom is set
+  public async prepareData(): Promise<void> {
+    this.checkDataCoverage();
+    await this.validateData();
+
+    const sourceTimeframe = this.getSourceTimeframe();
+    const timeframe = this.runConfig.singleBacktest.timeframe;
+    if (sourceTimeframe !== timeframe) {
+      this.candles = resampleCandles(this.candles, sourceTimeframe, timeframe);
+      this.totalCandles = this.candles.length;
+      console.log(`Resampled ${sourceTimeframe} candles into ${this.candles.length} ${timeframe} candles`);
+    }
+  }
 
-      stream.pipe(parser);
-    });
+  // Warns when the candle source reports months of the requested range that
+  // are missing or only partly on disk (for Binance, from the availability
+  // manifest), instead of silently running on partial data
+  public checkDataCoverage(): string[] {
+    const gaps = createCandleSource(this.runConfig).findCoverageGaps(
+      this.symbol,
+      this.runConfig.singleBacktest.timeframe
+    );
+    for (const gap of gaps) {
+      this.warnings.push(gap);
+      console.log(`Warning: ${gap}`);
+    }
+    return gaps;
+  }
+
+  // Checks the loaded candles for duplicates, ordering, price anomalies and
+  // gaps, saves the integrity report and fails, warns or repairs according to
+  // dataValidation.mode
+  public async validateData(): Promise<CandleIntegrityReport> {
+    const mode = this.runConfig.dataValidation?.mode ?? 'warn';
+    const report = validateCandles(this.candles, this.symbol, this.getSourceTimeframe(), mode);
+
+    if (!report.passed) {
+      if (mode === 'fail') {
+        await saveIntegrityReport(report, this.runConfig);
+        throw new CandleIntegrityError(report);
+      }
+      if (mode === 'repair') {
+        this.candles = repairCandles(this.candles);
+        this.totalCandles = this.candles.length;
+        // Dropped candles leave gaps of their own
+        const { gaps, missingCandles } = validateCandles(
+          this.candles,
+          this.symbol,
+          report.timeframe,
+          mode
+        );
+        report.gaps = gaps;
+        report.missingCandles = missingCandles;
+        report.repaired = {
+          removedCandles: report.candles - this.candles.length,
+          candles: this.candles.length,
+        };
+      }
+
+      const warning = `data integrity ${describeIntegrityIssues(report)}${
+        report.repaired ? ` (repaired, ${report.repaired.removedCandles} candles removed)` : ''
+      }`;
+      this.warnings.push(warning);
+      console.log(`Warning: ${warning}`);
+    }
+
+    const reportPath = await saveIntegrityReport(report, this.runConfig);
+    console.log(`Integrity report saved to ${reportPath}`);
+    this.dataIntegrity = report;
+    return report;
+  }
+
+  // Uses candles that were already loaded elsewhere instead of reading CSVs.
+  // The first `warmupCandles` only feed the lookback and are left out of
+  // totalCandles and the exposure time.
+  public setCandles(candles: CandleData[], warmupCandles: number = 0): void {
+    this.candles = candles;
+    this.warmupCandles = warmupCandles;
+    this.totalCandles = candles.length - warmupCandles;
+  }
+
+  // Candles the volatility measure needs before the first legend candle
+  public getWarmupCandles(): number {
+    return getWarmupCandles(this.parameters.volatilityMeasure, this.parameters.lookbackCandles);
+  }
+
+  public getCandles(): CandleData[] {
+    return this.candles;
   }
 
   private formatNumber(num: number): string {
@@ -126,7 +235,7 @@ export class Backtester {
     return numPrice.toFixed(this.symbolInfo.pricePrecision);
   }
 
-  private formatCandleDetails(candle: any) {
+  private formatCandleDetails(candle: CandleData) {
     return {
       open: this.formatPrice(candle.open),
       high: this.formatPrice(candle.high),
@@ -136,173 +245,124 @@ export class Backtester {
     };
   }
 
-  private async isLegendCandle(index: number): Promise<boolean> {
-    const lookbackPeriod = this.getLookbackPeriod();
-    if (index < lookbackPeriod) return false;
-
-    const lookbackCandles = this.candles.slice(index - lookbackPeriod, index);
-    const currentCandle = this.candles[index];
-
-    // Calculate current candle's movement percentage using open-close
-    const currentDiff = (Math.abs(currentCandle.close - currentCandle.open) / currentCandle.open) * 100;
-
-    // Calculate average movement of previous candles using open-close
-    const previousDiffs = lookbackCandles.map(
-      (candle) => Math.abs((candle.close - candle.open) / candle.open) * 100
-    );
-    const averageDiff = previousDiffs.reduce((a, b) => a + b, 0) / previousDiffs.length;
-    const dynamicThreshold = this.runConfig.strategy.lookbackPeriod.threshold * averageDiff;
-
-    console.log(`
-🔍 Checking candle at ${moment(currentCandle.openTime).format('YYYY-MM-DD HH:mm:ss')}
-Movement: ${currentDiff.toFixed(2)}%
-Average Movement: ${averageDiff.toFixed(2)}%
-Dynamic Threshold: ${dynamicThreshold.toFixed(2)}%`);
-
-    // Is it a legend candle?
-    return currentDiff >= dynamicThreshold;
+  // Read-only view of the run handed to the strategy plugins
+  private createStrategyContext(): StrategyContext {
+    return {
+      symbol: this.symbol,
+      runConfig: this.runConfig,
+      candles: this.candles,
+      parameters: this.parameters,
+      costModel: this.costModel,
+      formatPrice: (price) => this.formatPrice(price),
+      formatTime: (timestamp) => moment(timestamp).format('YYYY-MM-DD HH:mm:ss'),
+      formatCandleDetails: (candle) => this.formatCandleDetails(candle),
+    };
   }
 
+  // Runs the entry and exit rules for one legend candle
   private async processLegendCandle(
     candleIndex: number,
-    candle: CandleData,
-    dynamicThreshold: number
+    signal: LegendSignal,
+    context: StrategyContext
   ): Promise<NullableThresholdResult> {
-    const isLegend = await this.isLegendCandle(candleIndex);
-    if (!isLegend) {
-      return null;
-    }
-
-    // Calculate threshold value based on close price
-    const thresholdValue = candle.close * (dynamicThreshold / 100);
-    const upwardThreshold = candle.close + thresholdValue;
-    const downwardThreshold = candle.close - thresholdValue;
+    const candle = this.candles[candleIndex];
+    const levels = this.strategy.entryRule.getLevels(candleIndex, signal, context);
 
     const result: ThresholdResult = {
       Legend_Candle_no: this.legendCandles + 1,
       timestamp: moment(candle.openTime).format('YYYY-MM-DD HH:mm:ss'),
       LegendCandle: {
-        currentDynamicThreshold: dynamicThreshold.toFixed(
+        currentDynamicThreshold: levels.dynamicThreshold.toFixed(
           this.symbolInfo?.pricePrecision || 2
         ),
-        upwardThreshold: this.formatPrice(upwardThreshold),
-        downwardThreshold: this.formatPrice(downwardThreshold),
+        upwardThreshold: this.formatPrice(levels.upwardThreshold),
+        downwardThreshold: this.formatPrice(levels.downwardThreshold),
         LegendCandleDifference: (
           (Math.abs(candle.close - candle.open) / candle.open) *
           100
         ).toFixed(2),
+        volatilityMeasure: signal.volatilityMeasure,
+        volatilityValue: signal.volatility.toFixed(6),
         LegendCandleDetails: this.formatCandleDetails(candle),
       },
       success: false,
     };
 
-    console.log(`
+    this.logProgress(`
 ✨ LEGEND CANDLE FOUND!
 Time: ${result.timestamp}
 Close: ${candle.close}
 Upward Threshold: ${result.LegendCandle.upwardThreshold}
 Downward Threshold: ${result.LegendCandle.downwardThreshold}`);
 
-    // Look for entry opportunities in subsequent candles
-    const maxLookForward = this.runConfig.trade.maxLookForwardCandles;
-    let candlesChecked = 0;
-
-    for (
-      let i = candleIndex + 1;
-      i < Math.min(candleIndex + maxLookForward + 1, this.candles.length);
-      i++
-    ) {
-      candlesChecked++;
-      const futureCandle = this.candles[i];
-      const high = futureCandle.high;
-      const low = futureCandle.low;
-
-      if (high >= upwardThreshold) {
-        result.entry = {
-          reason: 'UpwardThresholdMet',
-          side: 'LONG',
-          price: upwardThreshold,
-          formatted_price: `${this.formatPrice(upwardThreshold)} USDT`,
-          time: moment(futureCandle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-          candlesUntilThreshold: candlesChecked,
-          PositionEntryCandleDetails: this.formatCandleDetails(futureCandle),
-        };
-        result.success = true;
-        break;
-      } else if (low <= downwardThreshold) {
-        result.entry = {
-          reason: 'DownwardThresholdMet',
-          side: 'SHORT',
-          price: downwardThreshold,
-          formatted_price: `${this.formatPrice(downwardThreshold)} USDT`,
-          time: moment(futureCandle.openTime).format('YYYY-MM-DD HH:mm:ss'),
-          candlesUntilThreshold: candlesChecked,
-          PositionEntryCandleDetails: this.formatCandleDetails(futureCandle),
-        };
-        result.success = true;
-        break;
+    const entrySignal = await this.strategy.entryRule.findEntry(candleIndex, levels, context);
+    if (entrySignal.ambiguous) {
+      result.ambiguous = entrySignal.ambiguous;
+    }
+    if (!entrySignal.entry) {
+      return result;
+    }
+
+    result.entry = entrySignal.entry;
+    result.success = true;
+
+    const outcome = this.strategy.exitRule.simulate(
+      entrySignal.entryIndex,
+      entrySignal.entry,
+      levels,
+      context
+    );
+    if (outcome && (outcome.exit || outcome.hedge)) {
+      if (outcome.hedge) {
+        result.hedge = outcome.hedge;
       }
+      if (outcome.exit) {
+        result.exit = outcome.exit;
+      }
+      this.tradeIndices.set(result, {
+        entryIndex: entrySignal.entryIndex,
+        exitIndex: outcome.exitIndex,
+        dynamicThreshold: levels.dynamicThreshold,
+      });
     }
 
     return result;
   }
 
-  private getLookbackPeriod(): number {
-    const timeframeMap: { [key: string]: number } = {
-      '1m': 200,
-      '3m': 150,
-      '5m': 120,
-      '15m': 100,
-      '30m': 80,
-      '1h': 60,
-      '2h': 48,
-      '4h': 36,
-      '6h': 24,
-      '8h': 20,
-      '12h': 15,
-      '1d': 10,
-    };
-    return timeframeMap[this.runConfig.singleBacktest.timeframe] || 200;
-  }
-
-  public async findThresholds(): Promise<ThresholdResult[]> {
-    console.log(`\nStarting findThresholds with ${this.candles.length} candles`);
+  // Pass saveResults: false to evaluate without writing the results file,
+  // e.g. when many parameter sets are run against the same candles. quiet
+  // skips progress logging and leaves unused config to the caller to report.
+  public async findThresholds(
+    options: { saveResults?: boolean; quiet?: boolean } = {}
+  ): Promise<ThresholdResult[]> {
+    this.quiet = options.quiet ?? false;
+    this.logProgress(`\nStarting findThresholds with ${this.candles.length} candles`);
     const results: ThresholdResult[] = [];
-    const lookbackPeriod = this.getLookbackPeriod();
+    const lookbackCandles = this.parameters.lookbackCandles;
 
-    console.log('Config:', {
-      lookbackPeriod,
-      threshold: this.runConfig.strategy.lookbackPeriod.threshold,
-      multiplier: this.runConfig.strategy.lookbackPeriod.thresholdMultiplier,
-      timeframe: this.runConfig.singleBacktest.timeframe
-    });
+    this.warnings = this.quiet ? findUnusedConfig(this.runConfig) : reportUnusedConfig(this.runConfig);
+    this.logProgress('Effective parameters:', this.parameters);
 
-    if (this.candles.length < lookbackPeriod) {
-      console.log(`Warning: Not enough candles (${this.candles.length}) for lookback period (${lookbackPeriod})`);
+    if (this.candles.length < lookbackCandles) {
+      console.log(`Warning: Not enough candles (${this.candles.length}) for lookback period (${lookbackCandles})`);
       return results;
     }
 
-    for (let i = lookbackPeriod; i < this.candles.length; i++) {
-      const lookbackCandles = this.candles.slice(i - lookbackPeriod, i);
-      const currentCandle = this.candles[i];
+    const context = this.createStrategyContext();
+    const firstIndex = this.strategy.legendDetector.prepare(context);
 
-      // Calculate average movement of previous candles
-      const previousDiffs = lookbackCandles.map(
-        (candle) => Math.abs((candle.close - candle.open) / candle.open) * 100
-      );
-      const averageDiff = previousDiffs.reduce((a, b) => a + b, 0) / previousDiffs.length;
-      const dynamicThreshold = averageDiff * this.runConfig.strategy.lookbackPeriod.thresholdMultiplier;
+    for (let i = firstIndex; i < this.candles.length; i++) {
+      const signal = this.strategy.legendDetector.detect(i, context);
+      if (!signal) {
+        continue;
+      }
 
-      const result = await this.processLegendCandle(
-        i,
-        currentCandle,
-        dynamicThreshold
-      );
+      const result = await this.processLegendCandle(i, signal, context);
 
       if (result) {
         this.legendCandles++;
         if (this.legendCandles % 5 === 0) {
-          console.log(`Found ${this.legendCandles} legend candles so far...`);
+          this.logProgress(`Found ${this.legendCandles} legend candles so far...`);
         }
         results.push(result);
         if (result.success) {
@@ -311,11 +371,127 @@ Downward Threshold: ${result.LegendCandle.downwardThreshold}`);
       }
     }
 
-    console.log(`\nProcessing complete. Found ${this.legendCandles} legend candles with ${this.successfulTrades} successful trades`);
-    await this.saveResults(results);
+    this.logProgress(`\nProcessing complete. Found ${this.legendCandles} legend candles with ${this.successfulTrades} successful trades`);
+    this.thresholdResults = results;
+    this.simulateAccount(results);
+    if (options.saveResults !== false) {
+      await this.saveResults(results);
+    }
     return results;
   }
 
+  // Replays the closed trades on an account balance in time order. Each
+  // position is sized from the balance realised before its entry candle and
+  // settles on its exit candle; exits settle before entries on the same candle.
+  // The notional of all open positions, including every leg of a hedge cycle,
+  // counts against maxLeverage from entry to exit.
+  private simulateAccount(results: ThresholdResult[]): void {
+    const account = this.runConfig.account;
+    this.equityCurve = [];
+    if (!account || !this.symbolInfo) {
+      return;
+    }
+
+    const sizer = new PositionSizer(account.sizing, this.symbolInfo);
+    type AccountEvent = { index: number; kind: 'entry' | 'exit'; result: ThresholdResult };
+    const events: AccountEvent[] = [];
+    for (const result of results) {
+      const indices = this.tradeIndices.get(result);
+      if (!indices) continue;
+      events.push({ index: indices.entryIndex, kind: 'entry', result });
+      events.push({ index: indices.exitIndex, kind: 'exit', result });
+    }
+    // On one candle: exits of earlier trades, then entries, then exits of
+    // trades closed on their entry candle
+    const order = (event: AccountEvent) => {
+      if (event.kind === 'entry') return 1;
+      const indices = this.tradeIndices.get(event.result)!;
+      return indices.exitIndex === indices.entryIndex ? 2 : 0;
+    };
+    events.sort((a, b) => (a.index !== b.index ? a.index - b.index : order(a) - order(b)));
+
+    let balance = account.initialBalance;
+    let openNotional = 0;
+    this.equityCurve.push({
+      time: moment(this.candles[0].openTime).format('YYYY-MM-DD HH:mm:ss'),
+      balance,
+    });
+
+    for (const event of events) {
+      const { result } = event;
+      const entry = result.entry!;
+      const indices = this.tradeIndices.get(result)!;
+
+      if (event.kind === 'entry') {
+        result.position = this.openPosition(sizer, result, balance, openNotional, indices.dynamicThreshold);
+        openNotional += getPositionNotional(result.position);
+        continue;
+      }
+
+      const position = result.position;
+      if (!position || position.rejectedReason) continue;
+
+      openNotional -= getPositionNotional(position);
+      position.pnl = result.hedge
+        ? getHedgePnl(result.hedge, entry.price, position)
+        : position.notional * (result.exit!.pnlPercent / 100);
+      balance += position.pnl;
+      position.balanceAfter = balance;
+      this.equityCurve.push({
+        time: moment(this.candles[event.index].openTime).format('YYYY-MM-DD HH:mm:ss'),
+        balance,
+      });
+    }
+  }
+
+  // Sizes the entry and, for hedge cycles, every later leg. The entry is
+  // scaled down so the whole cycle fits within maxLeverage, and the cycle is
+  // rejected when any leg falls below the exchange minimums.
+  private openPosition(
+    sizer: PositionSizer,
+    result: ThresholdResult,
+    balance: number,
+    openNotional: number,
+    dynamicThreshold: number
+  ): PositionInfo {
+    const entry = result.entry!;
+    const rejected = (reason: string): PositionInfo => ({
+      quantity: 0,
+      notional: 0,
+      pnl: 0,
+      balanceAfter: balance,
+      rejectedReason: reason,
+    });
+
+    const hedgeLegs = result.hedge?.legs.slice(1) ?? [];
+    // Notional of the cycle per unit of entry notional
+    const exposureFactor =
+      1 + hedgeLegs.reduce((sum, leg) => sum + (leg.size * leg.price) / entry.price, 0);
+
+    const decision = sizer.size(balance, entry.price, dynamicThreshold, openNotional, exposureFactor);
+    if (!decision.accepted) {
+      return rejected(decision.reason);
+    }
+
+    const position: PositionInfo = {
+      quantity: decision.quantity,
+      notional: decision.notional,
+      pnl: 0,
+      balanceAfter: balance,
+    };
+    if (hedgeLegs.length > 0) {
+      position.hedgeLegs = [];
+      for (const leg of hedgeLegs) {
+        const legDecision = sizer.sizeHedgeLeg(decision.quantity, leg.size, leg.price);
+        if (!legDecision.accepted) {
+          return rejected(`Hedge leg ${leg.leg}: ${legDecision.reason}`);
+        }
+        position.hedgeLegs.push({ quantity: legDecision.quantity, notional: legDecision.notional });
+      }
+    }
+    return position;
+  }
+
   private async saveResults(results: ThresholdResult[]): Promise<void> {
     if (!this.symbolInfo) {
       throw new Error('Symbol info not set before saving results');
@@ -326,20 +502,21 @@ Downward Threshold: ${result.LegendCandle.downwardThreshold}`);
       timeframe: this.runConfig.singleBacktest.timeframe,
       symbolInfo: this.symbolInfo,
       config: this.runConfig,
+      parameters: this.parameters,
+      warnings: this.warnings,
+      dataIntegrity: this.dataIntegrity,
       results: results,
-      stats: {
-        totalCandles: this.totalCandles,
-        legendCandles: this.legendCandles,
-        successfulTrades: this.successfulTrades,
-        successRate:
-          this.legendCandles > 0
-            ? (this.successfulTrades / this.legendCandles) * 100
-            : 0,
-      },
+      equityCurve: this.equityCurve,
+      stats: this.getStats(),
+      metrics: this.getMetrics(),
     };
 
+    if (this.runConfig.monteCarlo) {
+      resultData.monteCarlo = new MonteCarloAnalyzer(this.runConfig.monteCarlo).analyze(results);
+    }
+
     // Create results directory if it doesn't exist
-    const resultsDir = path.join(process.cwd(), '..', 'results', this.symbol);
+    const resultsDir = path.join(getResultsDirectory(this.runConfig), this.symbol);
     await fs.promises.mkdir(resultsDir, { recursive: true });
 
     // Save results to JSON file
@@ -351,9 +528,39 @@ Downward Threshold: ${result.LegendCandle.downwardThreshold}`);
       resultPath,
       JSON.stringify(resultData, null, 2)
     );
+
+    if (resultData.monteCarlo) {
+      const summaryPath = path.join(
+        resultsDir,
+        `${this.runConfig.singleBacktest.timeframe}_montecarlo.txt`
+      );
+      await fs.promises.writeFile(
+        summaryPath,
+        MonteCarloAnalyzer.formatSummary(
+          `${this.symbol} ${this.runConfig.singleBacktest.timeframe}`,
+          resultData.monteCarlo
+        )
+      );
+    }
   }
 
-  public getStats() {
+  public getStats(): BacktestStats {
+    const closedTrades = this.thresholdResults
+      .map((result) => result.hedge?.netPnlPercent ?? result.exit?.pnlPercent)
+      .filter((pnl): pnl is number => pnl !== undefined);
+    const grossTrades = this.thresholdResults
+      .map((result) => result.hedge?.grossPnlPercent ?? result.exit?.grossPnlPercent)
+      .filter((pnl): pnl is number => pnl !== undefined);
+    const wins = closedTrades.filter((pnl) => pnl > 0);
+    const losses = closedTrades.filter((pnl) => pnl <= 0);
+    const account = this.runConfig.account;
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+    // Compounded return of taking every closed trade in sequence
+    const compound = (returns: number[]) =>
+      (returns.reduce((equity, pnl) => equity * (1 + pnl / 100), 1) - 1) * 100;
+
     return {
       totalCandles: this.totalCandles,
       legendCandles: this.legendCandles,
@@ -362,9 +569,70 @@ Downward Threshold: ${result.LegendCandle.downwardThreshold}`);
         this.legendCandles > 0
           ? (this.successfulTrades / this.legendCandles) * 100
           : 0,
+      ambiguousEntries: this.thresholdResults.filter((result) => result.ambiguous).length,
+      closedTrades: closedTrades.length,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      winRate:
+        closedTrades.length > 0 ? (wins.length / closedTrades.length) * 100 : 0,
+      averageWin: average(wins),
+      averageLoss: average(losses),
+      totalReturn: compound(closedTrades),
+      grossTotalReturn: compound(grossTrades),
+      ...(account && {
+        initialBalance: account.initialBalance,
+        finalBalance:
+          this.equityCurve.length > 0
+            ? this.equityCurve[this.equityCurve.length - 1].balance
+            : account.initialBalance,
+        rejectedOrders: this.thresholdResults.filter(
+          (result) => result.position?.rejectedReason
+        ).length,
+      }),
     };
   }
 
+  // Closed trades in the shape used by the metrics module
+  public getTradeRecords(): TradeRecord[] {
+    const trades: TradeRecord[] = [];
+
+    for (const result of this.thresholdResults) {
+      const indices = this.tradeIndices.get(result);
+      const closed = result.hedge ?? result.exit;
+      if (!indices || !closed || !result.entry) continue;
+
+      trades.push({
+        side: result.entry.side,
+        pnlPercent: result.hedge?.netPnlPercent ?? result.exit!.pnlPercent,
+        entryTime: this.candles[indices.entryIndex].openTime,
+        exitTime: this.candles[indices.exitIndex].openTime,
+        mae: closed.maxAdverseExcursion,
+        mfe: closed.maxFavorableExcursion,
+      });
+    }
+
+    return trades;
+  }
+
+  // Number of candles after the warmup during which a position was open
+  public getExposedCandles(): number {
+    const covered = new Uint8Array(this.candles.length);
+    for (const indices of this.tradeIndices.values()) {
+      covered.fill(1, indices.entryIndex, indices.exitIndex + 1);
+    }
+    return covered.subarray(this.warmupCandles).reduce((sum, flag) => sum + flag, 0);
+  }
+
+  // Percentage of candles during which a position was open
+  public getExposureTime(): number {
+    const candles = this.candles.length - this.warmupCandles;
+    return candles > 0 ? (this.getExposedCandles() / candles) * 100 : 0;
+  }
+
+  public getMetrics(): PerformanceMetrics {
+    return calculatePerformanceMetrics(this.getTradeRecords(), this.getExposureTime());
+  }
+
   async run(): Promise<void> {
     await this.findThresholds();
   }
@@ -1,63 +1,93 @@
 import { Backtester } from './backtest';
-import { DataFetcher } from './data-fetcher';
+import { createCandleSource } from './candle-sources';
 import path from 'path';
 import fs from 'fs';
-import config, { AVAILABLE_SYMBOLS, AVAILABLE_TIMEFRAMES } from './config';
-import { TradingConfig } from './interfaces';
+import config, { AVAILABLE_SYMBOLS, AVAILABLE_TIMEFRAMES, getResultsDirectory } from './config';
+import { DownloadSummary, SymbolInfo, TradingConfig } from './interfaces';
 import { ThresholdResult } from './interfaces';
 
 export class BatchProcessor {
-  private symbols = AVAILABLE_SYMBOLS;
-  private timeframes = AVAILABLE_TIMEFRAMES;
   private completedBacktests: Set<string> = new Set();
+  // Error message of every combination that failed to download or backtest
+  private failedBacktests: Map<string, string> = new Map();
+  private symbolInfo: Map<string, SymbolInfo> = new Map();
+  // Months that stayed missing after retries, per SYMBOL-TIMEFRAME
+  private missingData: Map<string, DownloadSummary['missing']> = new Map();
 
   constructor(
     private useParallel: boolean = false,
-    private concurrencyLimit: number = 5
+    private concurrencyLimit: number = 5,
+    private runConfig: TradingConfig = config,
+    private symbols: readonly string[] = AVAILABLE_SYMBOLS,
+    private timeframes: readonly string[] = AVAILABLE_TIMEFRAMES
   ) {}
 
-  private async downloadData(
-    symbol: string, 
-    timeframe: typeof AVAILABLE_TIMEFRAMES[number]
-  ): Promise<void> {
+  // Combinations that failed, as SYMBOL-TIMEFRAME keys
+  public getFailures(): string[] {
+    return [...this.failedBacktests.keys()];
+  }
+
+  private getRunConfig(symbol: string, timeframe: string): TradingConfig {
+    return {
+      ...this.runConfig,
+      singleBacktest: {
+        symbol,
+        timeframe
+      }
+    };
+  }
+
+  private async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    let info = this.symbolInfo.get(symbol);
+    if (!info) {
+      info = await createCandleSource(this.runConfig).fetchSymbolInfo(symbol);
+      this.symbolInfo.set(symbol, info);
+    }
+    return info;
+  }
+
+  // Backtest timeframes built from the given downloaded timeframe; with
+  // dataFetch.resampleFrom every timeframe shares the one base download
+  private getTimeframesFrom(sourceTimeframe: string): string[] {
+    const { resampleFrom } = this.runConfig.dataFetch;
+    return resampleFrom ? [...this.timeframes] : [sourceTimeframe];
+  }
+
+  private async downloadData(symbol: string, timeframe: string): Promise<void> {
+    const combinations = this.getTimeframesFrom(timeframe).map((target) => `${symbol}-${target}`);
+
     try {
       console.log(`\n=== Downloading data for ${symbol} - ${timeframe} ===`);
-      
-      const runConfig: TradingConfig = {
-        ...config,
-        singleBacktest: {
-          symbol,
-          timeframe
-        }
-      };
 
-      const dataFetcher = new DataFetcher(symbol, runConfig);
-      await dataFetcher.fetchHistoricalData();
-      
-      console.log(`✅ Downloaded data for ${symbol} - ${timeframe}`);
+      const { missing } = await createCandleSource(this.runConfig).fetchHistoricalData(symbol, timeframe);
+
+      if (missing.length > 0) {
+        combinations.forEach((key) => this.missingData.set(key, missing));
+        console.log(`⚠️ Downloaded data for ${symbol} - ${timeframe} with ${missing.length} missing months`);
+      } else {
+        console.log(`✅ Downloaded data for ${symbol} - ${timeframe}`);
+      }
     } catch (error) {
       console.error(`❌ Error downloading data for ${symbol} - ${timeframe}:`, error);
-      throw error;
+      combinations.forEach((key) =>
+        this.failedBacktests.set(key, (error as Error)?.message || 'Unknown error occurred')
+      );
     }
   }
 
-  private async runBacktest(
-    symbol: string, 
-    timeframe: typeof AVAILABLE_TIMEFRAMES[number]
-  ): Promise<void> {
+  private async runBacktest(symbol: string, timeframe: string): Promise<void> {
+    if (this.failedBacktests.has(`${symbol}-${timeframe}`)) {
+      console.log(`Skipping ${symbol} - ${timeframe}: data download failed`);
+      return;
+    }
+
     try {
       console.log(`\n=== Running backtest for ${symbol} - ${timeframe} ===`);
-      
-      const runConfig: TradingConfig = {
-        ...config,
-        singleBacktest: {
-          symbol,
-          timeframe
-        }
-      };
 
+      const runConfig = this.getRunConfig(symbol, timeframe);
       const backtester = new Backtester(symbol, runConfig);
-      const csvFiles = await this.getAllCsvFiles(symbol, timeframe);
+      backtester.setSymbolInfo(await this.getSymbolInfo(symbol));
+      const csvFiles = await createCandleSource(runConfig).listFiles(symbol, timeframe);
 
       if (csvFiles.length === 0) {
         console.log(`No CSV files found for ${symbol} - ${timeframe}`);
@@ -68,6 +98,7 @@ export class BatchProcessor {
       for (const csvFile of csvFiles) {
         await backtester.loadData(csvFile);
       }
+      await backtester.prepareData();
 
       await backtester.findThresholds();
       
@@ -76,19 +107,24 @@ export class BatchProcessor {
       console.log(`✅ Completed backtest for ${symbol} - ${timeframe}`);
     } catch (error) {
       console.error(`❌ Error in backtest for ${symbol} - ${timeframe}:`, error);
-      throw error;
+      this.failedBacktests.set(
+        `${symbol}-${timeframe}`,
+        (error as Error)?.message || 'Unknown error occurred'
+      );
     }
   }
 
   private async downloadAllData(): Promise<void> {
     console.log('\n=== Starting Data Download Phase ===');
-    const totalDownloads = this.symbols.length * this.timeframes.length;
+    const { resampleFrom } = this.runConfig.dataFetch;
+    const downloadTimeframes = resampleFrom ? [resampleFrom] : this.timeframes;
+    const totalDownloads = this.symbols.length * downloadTimeframes.length;
     console.log(`Total downloads needed: ${totalDownloads}`);
 
     if (this.useParallel) {
       const queue = [];
       for (const symbol of this.symbols) {
-        for (const timeframe of this.timeframes) {
+        for (const timeframe of downloadTimeframes) {
           queue.push({ symbol, timeframe });
         }
       }
@@ -105,7 +141,7 @@ export class BatchProcessor {
     } else {
       let completed = 0;
       for (const symbol of this.symbols) {
-        for (const timeframe of this.timeframes) {
+        for (const timeframe of downloadTimeframes) {
           await this.downloadData(symbol, timeframe);
           completed++;
           console.log(`Download progress: ${completed}/${totalDownloads}`);
@@ -113,6 +149,13 @@ export class BatchProcessor {
       }
     }
 
+    if (this.missingData.size > 0) {
+      console.log('\nMissing data after all retries:');
+      for (const [key, missing] of this.missingData) {
+        console.log(`  ${key}: ${missing.map(({ period, reason }) => `${period} (${reason})`).join(', ')}`);
+      }
+    }
+
     console.log('\n✅ All data downloads completed');
   }
 
@@ -162,28 +205,17 @@ export class BatchProcessor {
     await this.runAllBacktests();
     
     // Generate summary
-    await this.runBatch();
+    await this.writeBatchSummary();
     
     console.log('\nBatch processing complete!');
   }
 
-  private async getAllCsvFiles(symbol: string, timeframe: string): Promise<string[]> {
-    const klineDir = path.join(
-      __dirname, 
-      `../kline/${symbol}/${timeframe}/csv`
-    );
-    const files = await fs.promises.readdir(klineDir);
-    return files
-      .filter((file) => file.endsWith('.csv'))
-      .sort()
-      .map((file) => path.join(klineDir, file));
-  }
-
   private async generateSummaryReport(symbol: string, timeframe: string): Promise<any> {
     try {
       const resultsPath = path.join(
-        __dirname,
-        `../results/${symbol}/${timeframe}_results.json`
+        getResultsDirectory(this.runConfig),
+        symbol,
+        `${timeframe}_results.json`
       );
 
       if (!fs.existsSync(resultsPath)) {
@@ -212,11 +244,14 @@ export class BatchProcessor {
         total_trades: trades.length,
         successful_trades: successfulTrades.length,
         success_rate: trades.length > 0 ? (successfulTrades.length / trades.length) * 100 : 0,
+        win_rate: results.stats?.winRate ?? 0,
+        total_return: results.stats?.totalReturn ?? 0,
+        metrics: results.metrics ?? null,
         config: results.config
       };
 
       // Save individual summary
-      const summaryDir = path.join(__dirname, '../results/summary');
+      const summaryDir = path.join(getResultsDirectory(this.runConfig), 'summary');
       if (!fs.existsSync(summaryDir)) {
         fs.mkdirSync(summaryDir, { recursive: true });
       }
@@ -256,23 +291,25 @@ export class BatchProcessor {
     }
   }
 
+  // Runs the backtests on data that is already on disk and summarises them
   public async run(): Promise<void> {
     console.log('\nStarting batch processing...');
     
     // Create results directory if it doesn't exist
-    const resultsDir = path.join(__dirname, '../results');
+    const resultsDir = getResultsDirectory(this.runConfig);
     if (!fs.existsSync(resultsDir)) {
       fs.mkdirSync(resultsDir, { recursive: true });
     }
 
-    await this.runBatch();
+    await this.runAllBacktests();
+    await this.writeBatchSummary();
     
     console.log('\nBatch processing complete!');
   }
 
-  private async runBatch(): Promise<void> {
+  private async writeBatchSummary(): Promise<void> {
     const startTime = Date.now();
-    const summaryDir = path.join(__dirname, '../results/summary');
+    const summaryDir = path.join(getResultsDirectory(this.runConfig), 'summary');
     if (!fs.existsSync(summaryDir)) {
       fs.mkdirSync(summaryDir, { recursive: true });
     }
@@ -283,20 +320,12 @@ export class BatchProcessor {
     );
 
     const summaries = [];
-    let completedCount = 0;
     const totalBacktests = this.symbols.length * this.timeframes.length;
 
     for (const symbol of this.symbols) {
       for (const timeframe of this.timeframes) {
-        try {
-          await this.runBacktest(symbol, timeframe);
-          const summary = await this.generateSummaryReport(symbol, timeframe);
-          if (summary) {
-            summaries.push(summary);
-          }
-        } catch (err) {
-          const error = err as Error;
-          console.error(`Error in backtest for ${symbol} - ${timeframe}:`, error);
+        const error = this.failedBacktests.get(`${symbol}-${timeframe}`);
+        if (error) {
           summaries.push({
             symbol,
             timeframe,
@@ -304,10 +333,16 @@ export class BatchProcessor {
             successful_trades: 0,
             success_rate: 0,
             config: null,
-            error: error?.message || 'Unknown error occurred'
+            error
           });
+          continue;
+        }
+
+        const summary = await this.generateSummaryReport(symbol, timeframe);
+        if (summary) {
+          const missing = this.missingData.get(`${symbol}-${timeframe}`);
+          summaries.push(missing ? { ...summary, missing_data: missing } : summary);
         }
-        completedCount++;
       }
     }
 
@@ -323,6 +358,6 @@ export class BatchProcessor {
     );
 
     console.log(`✅ Summary report saved to ${batchSummaryPath}`);
-    console.log(`Completed ${completedCount} out of ${totalBacktests} backtests`);
+    console.log(`Completed ${this.completedBacktests.size} out of ${totalBacktests} backtests`);
   }
-} 
\ No newline at end of file
+}
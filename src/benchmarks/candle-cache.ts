@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readCandlesFromCsv, PACKED_FIELDS } from '../candle-loader';
+import { getCandleCachePath, readAllCandles } from '../candle-cache';
+import { CandleData } from '../interfaces';
+
+// Loads a year of 1m klines through csv-parse and through the binary candle
+// cache (cold, building it, then warm), and checks that every field of every
+// candle is bit-identical between the two paths.
+//
+// Usage: ts-node src/benchmarks/candle-cache.ts [csvDir]
+//   csvDir defaults to kline/um/ETHUSDT/1m/csv; when it holds no CSVs a
+//   synthetic year of 1m klines is written to a temporary directory instead
+
+const MINUTE_MS = 60 * 1000;
+const CSV_HEADER =
+  'open_time,open,high,low,close,volume,close_time,quote_volume,count,taker_buy_volume,taker_buy_quote_volume,ignore';
+
+function listCsvFiles(csvDir: string): string[] {
+  if (!fs.existsSync(csvDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(csvDir)
+    .filter((file) => file.endsWith('.csv'))
+    .sort()
+    .map((file) => path.join(csvDir, file));
+}
+
+// Seeded random walk written as twelve monthly Binance-format CSVs
+function writeSyntheticYear(csvDir: string): string[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+
+  fs.mkdirSync(csvDir, { recursive: true });
+  let price = 2500;
+  const files: string[] = [];
+  for (let month = 0; month < 12; month++) {
+    const rows = [CSV_HEADER];
+    const end = Date.UTC(2024, month + 1, 1);
+    for (let openTime = Date.UTC(2024, month, 1); openTime < end; openTime += MINUTE_MS) {
+      const open = price;
+      const close = open * (1 + (random() - 0.5) * 0.002);
+      const high = Math.max(open, close) * (1 + random() * 0.0005);
+      const low = Math.min(open, close) * (1 - random() * 0.0005);
+      const volume = random() * 100;
+      rows.push(
+        [
+          openTime,
+          open.toFixed(2),
+          high.toFixed(2),
+          low.toFixed(2),
+          close.toFixed(2),
+          volume.toFixed(3),
+          openTime + MINUTE_MS - 1,
+          (volume * close).toFixed(5),
+          Math.floor(random() * 1000),
+          (volume / 2).toFixed(3),
+          ((volume / 2) * close).toFixed(5),
+          0,
+        ].join(',')
+      );
+      price = close;
+    }
+    const file = path.join(csvDir, `ETHUSDT-1m-2024-${String(month + 1).padStart(2, '0')}.csv`);
+    fs.writeFileSync(file, rows.join('\n'));
+    files.push(file);
+  }
+  return files;
+}
+
+async function loadAll(files: string[], load: (file: string) => Promise<CandleData[]>) {
+  const start = Date.now();
+  let candles: CandleData[] = [];
+  for (const file of files) {
+    candles = candles.concat(await load(file));
+  }
+  return { candles, ms: Date.now() - start };
+}
+
+// Object.is tells NaN and -0 apart, so equal fields are bit-identical doubles
+function findMismatch(expected: CandleData[], actual: CandleData[]): string | undefined {
+  if (expected.length !== actual.length) {
+    return `${actual.length} candles instead of ${expected.length}`;
+  }
+  for (let i = 0; i < expected.length; i++) {
+    for (const field of PACKED_FIELDS) {
+      if (!Object.is(expected[i][field], actual[i][field])) {
+        return `candle ${i} ${field}: ${actual[i][field]} instead of ${expected[i][field]}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function main() {
+  let csvDir = process.argv[2] ?? path.join(__dirname, '../../kline/um/ETHUSDT/1m/csv');
+  let files = listCsvFiles(csvDir);
+  let temporaryDir: string | undefined;
+  if (files.length === 0) {
+    temporaryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'candle-cache-'));
+    csvDir = temporaryDir;
+    console.log(`No CSVs found, writing a synthetic year of 1m klines to ${csvDir}...`);
+    files = writeSyntheticYear(csvDir);
+  }
+
+  // Start cold so the first cached load includes building the cache
+  for (const file of files) {
+    fs.rmSync(getCandleCachePath(file), { force: true });
+  }
+
+  const csv = await loadAll(files, (file) => readCandlesFromCsv(file, 0, Number.MAX_SAFE_INTEGER));
+  const cold = await loadAll(files, readAllCandles);
+  const warm = await loadAll(files, readAllCandles);
+  const mismatch = findMismatch(csv.candles, cold.candles) ?? findMismatch(csv.candles, warm.candles);
+
+  console.log(`${files.length} files, ${csv.candles.length} candles from ${csvDir}`);
+  console.log(`csv-parse:           ${csv.ms} ms`);
+  console.log(`Cache build (cold):  ${cold.ms} ms`);
+  console.log(`Cache load (warm):   ${warm.ms} ms`);
+  console.log(`Speedup: ${(csv.ms / Math.max(warm.ms, 1)).toFixed(1)}x`);
+  console.log(`Bit-identical candles: ${mismatch ? `NO (${mismatch})` : 'yes'}`);
+
+  if (temporaryDir) {
+    fs.rmSync(temporaryDir, { recursive: true, force: true });
+  }
+  if (mismatch) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Candle cache benchmark failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,137 @@
+import moment from 'moment';
+import { Backtester } from '../backtest';
+import config from '../config';
+import { CandleData, SymbolInfo, TradingConfig } from '../interfaces';
+
+// Compares the original slice-and-average legend detection with the rolling
+// window detector used by Backtester on a synthetic series, and checks that
+// both find exactly the same legend candles.
+//
+// Usage: ts-node src/benchmarks/legend-detection.ts [candleCount]
+
+const CANDLE_COUNT = parseInt(process.argv[2] ?? '1000000');
+const LOOKBACK = 200;
+const MINUTE_MS = 60 * 1000;
+
+const symbolInfo: SymbolInfo = {
+  symbol: 'SYNTHUSDT',
+  baseAsset: 'SYNTH',
+  quoteAsset: 'USDT',
+  baseAssetPrecision: 8,
+  quotePrecision: 8,
+  pricePrecision: 2,
+  quantityPrecision: 3,
+};
+
+// Seeded random walk with occasional volatility bursts
+function generateCandles(count: number): CandleData[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+
+  const candles: CandleData[] = [];
+  let price = 2500;
+  const startTime = Date.UTC(2020, 0, 1);
+
+  for (let i = 0; i < count; i++) {
+    const volatility = random() < 0.005 ? 0.02 : 0.001;
+    const open = price;
+    const close = open * (1 + (random() - 0.5) * 2 * volatility);
+    const high = Math.max(open, close) * (1 + random() * 0.0005);
+    const low = Math.min(open, close) * (1 - random() * 0.0005);
+    const openTime = startTime + i * MINUTE_MS;
+
+    candles.push({
+      openTime,
+      open,
+      high,
+      low,
+      close,
+      volume: random() * 100,
+      closeTime: openTime + MINUTE_MS - 1,
+      quoteAssetVolume: 0,
+      trades: 0,
+      takerBuyBaseAssetVolume: 0,
+      takerBuyQuoteAssetVolume: 0,
+      ignore: 0,
+    });
+    price = close;
+  }
+  return candles;
+}
+
+// The detection as it was before the rolling indicators: every candle
+// re-slices and re-averages its lookback window
+function detectWithSlices(candles: CandleData[], threshold: number): number[] {
+  const legendIndices: number[] = [];
+  for (let i = LOOKBACK; i < candles.length; i++) {
+    const lookbackCandles = candles.slice(i - LOOKBACK, i);
+    const currentCandle = candles[i];
+    const currentDiff = (Math.abs(currentCandle.close - currentCandle.open) / currentCandle.open) * 100;
+    const previousDiffs = lookbackCandles.map(
+      (candle) => Math.abs((candle.close - candle.open) / candle.open) * 100
+    );
+    const averageDiff = previousDiffs.reduce((a, b) => a + b, 0) / previousDiffs.length;
+    if (currentDiff >= threshold * averageDiff) {
+      legendIndices.push(i);
+    }
+  }
+  return legendIndices;
+}
+
+async function detectWithBacktester(candles: CandleData[], runConfig: TradingConfig): Promise<string[]> {
+  const backtester = new Backtester(symbolInfo.symbol, runConfig);
+  backtester.setSymbolInfo(symbolInfo);
+  backtester.setCandles(candles);
+  const results = await backtester.findThresholds({ saveResults: false, quiet: true });
+  return results.map((result) => result.timestamp);
+}
+
+async function main() {
+  console.log(`Generating ${CANDLE_COUNT} synthetic candles...`);
+  const candles = generateCandles(CANDLE_COUNT);
+
+  // Only legend detection is measured: no entries, exits or account replay
+  const runConfig: TradingConfig = {
+    ...config,
+    trade: { maxLookForwardCandles: 0 },
+    account: undefined,
+    strategy: {
+      ...config.strategy,
+      lookback: { candles: LOOKBACK },
+      volatilityMeasure: 'bodySma',
+    },
+  };
+  const threshold = runConfig.strategy.legendTriggerMultiple;
+
+  let start = Date.now();
+  const sliceIndices = detectWithSlices(candles, threshold);
+  const sliceMs = Date.now() - start;
+
+  start = Date.now();
+  const rollingTimestamps = await detectWithBacktester(candles, runConfig);
+  const rollingMs = Date.now() - start;
+
+  const sliceTimestamps = sliceIndices.map((i) =>
+    moment(candles[i].openTime).format('YYYY-MM-DD HH:mm:ss')
+  );
+  const identical =
+    sliceTimestamps.length === rollingTimestamps.length &&
+    sliceTimestamps.every((timestamp, i) => timestamp === rollingTimestamps[i]);
+
+  console.log(`Slice-and-average: ${sliceMs} ms, ${sliceTimestamps.length} legend candles`);
+  console.log(`Rolling window:    ${rollingMs} ms, ${rollingTimestamps.length} legend candles`);
+  console.log(`Speedup: ${(sliceMs / Math.max(rollingMs, 1)).toFixed(1)}x`);
+  console.log(`Identical legend sets: ${identical ? 'yes' : 'NO'}`);
+
+  if (!identical) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Legend detection benchmark failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from './config';
+import { PACKED_FIELDS } from './candle-loader';
+import { BinanceCandleSource, CandleSource, createCandleSource } from './candle-sources';
+import { Downloader } from './downloader';
+import { CandleData, TradingConfig } from './interfaces';
+
+// Binary cache of a kline CSV, kept in a .cache directory next to it:
+//
+//   header (40 bytes): magic "CNDL", format version, candle count, field
+//     count, hash of the candle source's parse settings (uint32 LE), 4 unused
+//     bytes, then the source CSV's size and mtime (float64 LE)
+//   columns: one float64 column of `count` values per PACKED_FIELDS entry
+//
+// Float64 holds every parsed CSV value exactly (including NaN for empty
+// cells), so cached candles are bit-identical to freshly parsed ones. A cache
+// whose recorded size, mtime or parse settings differ is rebuilt.
+const MAGIC = 0x4c444e43; // "CNDL"
+// Bumped whenever the layout or parsing changes, so older caches are rebuilt
+const FORMAT_VERSION = 3;
+const HEADER_BYTES = 40;
+
+interface SourceStamp {
+  size: number;
+  mtimeMs: number;
+  formatHash: number;
+}
+
+function hashFormat(formatKey: string): number {
+  return crypto.createHash('sha256').update(formatKey).digest().readUInt32LE(0);
+}
+
+export function getCandleCachePath(csvFilePath: string): string {
+  return path.join(
+    path.dirname(csvFilePath),
+    '.cache',
+    `${path.basename(csvFilePath, '.csv')}.candles`
+  );
+}
+
+function encodeCandles(candles: CandleData[], source: SourceStamp): Buffer {
+  const buffer = Buffer.alloc(
+    HEADER_BYTES + candles.length * PACKED_FIELDS.length * Float64Array.BYTES_PER_ELEMENT
+  );
+  buffer.writeUInt32LE(MAGIC, 0);
+  buffer.writeUInt32LE(FORMAT_VERSION, 4);
+  buffer.writeUInt32LE(candles.length, 8);
+  buffer.writeUInt32LE(PACKED_FIELDS.length, 12);
+  buffer.writeUInt32LE(source.formatHash, 16);
+  buffer.writeDoubleLE(source.size, 24);
+  buffer.writeDoubleLE(source.mtimeMs, 32);
+
+  const columns = new Float64Array(buffer.buffer, buffer.byteOffset + HEADER_BYTES);
+  PACKED_FIELDS.forEach((field, j) => {
+    const offset = j * candles.length;
+    for (let i = 0; i < candles.length; i++) {
+      columns[offset + i] = candles[i][field];
+    }
+  });
+  return buffer;
+}
+
+// Returns undefined when the file is not a valid cache of the given source
+function decodeCandles(buffer: Buffer, source: SourceStamp): CandleData[] | undefined {
+  if (
+    buffer.length < HEADER_BYTES ||
+    buffer.readUInt32LE(0) !== MAGIC ||
+    buffer.readUInt32LE(4) !== FORMAT_VERSION ||
+    buffer.readUInt32LE(12) !== PACKED_FIELDS.length ||
+    buffer.readUInt32LE(16) !== source.formatHash ||
+    buffer.readDoubleLE(24) !== source.size ||
+    buffer.readDoubleLE(32) !== source.mtimeMs
+  ) {
+    return undefined;
+  }
+  const count = buffer.readUInt32LE(8);
+  const byteLength = count * PACKED_FIELDS.length * Float64Array.BYTES_PER_ELEMENT;
+  if (buffer.length !== HEADER_BYTES + byteLength) {
+    return undefined;
+  }
+
+  // Typed arrays need 8-byte alignment; copy when the buffer is not aligned
+  const start = buffer.byteOffset + HEADER_BYTES;
+  const columns =
+    start % Float64Array.BYTES_PER_ELEMENT === 0
+      ? new Float64Array(buffer.buffer, start, count * PACKED_FIELDS.length)
+      : new Float64Array(buffer.buffer.slice(start, start + byteLength));
+
+  const column = {} as { [field in keyof CandleData]: Float64Array };
+  PACKED_FIELDS.forEach((field, j) => {
+    column[field] = columns.subarray(j * count, (j + 1) * count);
+  });
+
+  // An object literal gives every candle the same shape, which is much
+  // faster to build and use than assigning the fields one by one
+  const candles: CandleData[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    candles[i] = {
+      openTime: column.openTime[i],
+      open: column.open[i],
+      high: column.high[i],
+      low: column.low[i],
+      close: column.close[i],
+      volume: column.volume[i],
+      closeTime: column.closeTime[i],
+      quoteAssetVolume: column.quoteAssetVolume[i],
+      trades: column.trades[i],
+      takerBuyBaseAssetVolume: column.takerBuyBaseAssetVolume[i],
+      takerBuyQuoteAssetVolume: column.takerBuyQuoteAssetVolume[i],
+      ignore: column.ignore[i],
+    };
+  }
+  return candles;
+}
+
+// Reads all candles of a CSV from its binary cache, building the cache from
+// the CSV with `candleSource` on first use or after the CSV changed
+export async function readAllCandles(
+  csvFilePath: string,
+  candleSource: CandleSource = new BinanceCandleSource(config)
+): Promise<CandleData[]> {
+  const stats = await fs.promises.stat(csvFilePath);
+  const source: SourceStamp = {
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    formatHash: hashFormat(candleSource.formatKey),
+  };
+  const cachePath = getCandleCachePath(csvFilePath);
+
+  if (fs.existsSync(cachePath)) {
+    const cached = decodeCandles(await fs.promises.readFile(cachePath), source);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const candles = await candleSource.readCandles(csvFilePath, 0, Number.MAX_SAFE_INTEGER);
+  try {
+    await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+    Downloader.writeFileAtomic(cachePath, encodeCandles(candles, source));
+  } catch (error) {
+    console.log(`Warning: could not write candle cache ${cachePath}: ${(error as Error).message}`);
+  }
+  return candles;
+}
+
+// Reads a CSV with the run's candle source, through the binary cache unless
+// candleCache.enabled is false
+export async function loadCandles(
+  csvFilePath: string,
+  startTimestamp: number,
+  endTimestamp: number,
+  runConfig: TradingConfig
+): Promise<CandleData[]> {
+  const candleSource = createCandleSource(runConfig);
+  if (runConfig.candleCache?.enabled === false) {
+    return candleSource.readCandles(csvFilePath, startTimestamp, endTimestamp);
+  }
+  const candles = await readAllCandles(csvFilePath, candleSource);
+  return candles.filter(
+    (candle) => candle.openTime >= startTimestamp && candle.openTime <= endTimestamp
+  );
+}
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse';
+import { getMarketKey } from './config';
+import { CandleData, TradingConfig } from './interfaces';
+
+// Directory the Binance kline CSVs of a symbol and timeframe are extracted to
+export function getKlineCsvDir(symbol: string, timeframe: string, runConfig: TradingConfig): string {
+  return path.join(__dirname, '../kline', getMarketKey(runConfig), symbol, timeframe, 'csv');
+}
+
+// Monthly kline CSVs of a symbol and timeframe within the configured date
+// range, in chronological order. With dataFetch.resampleFrom set these are
+// the CSVs of that base timeframe.
+export async function listKlineCsvFiles(
+  symbol: string,
+  timeframe: string,
+  runConfig: TradingConfig
+): Promise<string[]> {
+  const sourceTimeframe = runConfig.dataFetch.resampleFrom ?? timeframe;
+  const klineDir = getKlineCsvDir(symbol, sourceTimeframe, runConfig);
+
+  const files = await fs.promises.readdir(klineDir);
+
+  // Filter files based on date range
+  const startDate = new Date(
+    runConfig.dataFetch.startDate.year,
+    runConfig.dataFetch.startDate.month - 1
+  );
+  const endDate = runConfig.dataFetch.endDate
+    ? new Date(
+        runConfig.dataFetch.endDate.year,
+        runConfig.dataFetch.endDate.month - 1
+      )
+    : new Date();
+
+  // Monthly files are named SYMBOL-TF-YYYY-MM.csv and daily ones, which cover
+  // months whose monthly archive is not published yet, SYMBOL-TF-YYYY-MM-DD.csv
+  const periods = files
+    .map((file) => ({ file, match: file.match(/-(\d{4})-(\d{2})(-\d{2})?\.csv$/) }))
+    .filter(({ match }) => {
+      if (!match) return false;
+
+      const fileDate = new Date(Number(match[1]), Number(match[2]) - 1);
+      return fileDate >= startDate && fileDate <= endDate;
+    });
+
+  // A monthly file supersedes any daily files left over for its month
+  const monthlyPeriods = new Set(
+    periods.filter(({ match }) => !match![3]).map(({ match }) => `${match![1]}-${match![2]}`)
+  );
+
+  return periods
+    .filter(({ match }) => !match![3] || !monthlyPeriods.has(`${match![1]}-${match![2]}`))
+    .map(({ file }) => file)
+    .sort()
+    .map((file) => path.join(klineDir, file));
+}
+
+// Column order of Binance kline CSVs; files that have a header use these names
+const KLINE_COLUMNS = [
+  'open_time',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'close_time',
+  'quote_volume',
+  'count',
+  'taker_buy_volume',
+  'taker_buy_quote_volume',
+  'ignore',
+] as const;
+type KlineColumn = typeof KLINE_COLUMNS[number];
+
+const REQUIRED_COLUMNS: KlineColumn[] = ['open_time', 'open', 'high', 'low', 'close', 'volume', 'close_time'];
+
+// Millisecond timestamps stay below this until the year 5138; spot archives
+// from 2025 onward use microseconds, which are far above it
+const MICROSECOND_THRESHOLD = 1e14;
+
+export class KlineFormatError extends Error {
+  constructor(
+    public file: string,
+    detail: string
+  ) {
+    super(`Unrecognised kline CSV layout in ${file}: ${detail}`);
+    this.name = 'KlineFormatError';
+  }
+}
+
+// Maps each column to its index, from the header row when the file has one
+// and from the standard Binance order when the first row is already data
+function detectColumns(
+  firstRow: string[],
+  csvFilePath: string
+): { hasHeader: boolean; columnIndex: Map<KlineColumn, number> } {
+  const isNumeric = (cell: string | undefined) => cell !== undefined && cell.trim() !== '' && !isNaN(Number(cell));
+
+  if (isNumeric(firstRow[0])) {
+    const nonNumeric = REQUIRED_COLUMNS.filter((_, i) => !isNumeric(firstRow[i]));
+    if (nonNumeric.length > 0) {
+      throw new KlineFormatError(
+        csvFilePath,
+        `headerless row has ${firstRow.length} columns, expected numeric ${nonNumeric.join(', ')}`
+      );
+    }
+    return {
+      hasHeader: false,
+      columnIndex: new Map(KLINE_COLUMNS.map((column, i) => [column, i])),
+    };
+  }
+
+  const names = firstRow.map((cell) => cell.trim().toLowerCase());
+  const columnIndex = new Map<KlineColumn, number>();
+  KLINE_COLUMNS.forEach((column) => {
+    if (names.includes(column)) {
+      columnIndex.set(column, names.indexOf(column));
+    }
+  });
+  const missing = REQUIRED_COLUMNS.filter((column) => !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new KlineFormatError(
+      csvFilePath,
+      `header "${firstRow.join(',')}" lacks ${missing.join(', ')}`
+    );
+  }
+  return { hasHeader: true, columnIndex };
+}
+
+// Streams a Binance kline CSV and returns the candles whose open time falls
+// within [startTimestamp, endTimestamp]. Files with or without a header row
+// and with millisecond or microsecond timestamps are recognised per file;
+// timestamps are normalised to milliseconds.
+export function readCandlesFromCsv(
+  csvFilePath: string,
+  startTimestamp: number,
+  endTimestamp: number
+): Promise<CandleData[]> {
+  return new Promise((resolve, reject) => {
+    const candles: CandleData[] = [];
+    const stream = fs.createReadStream(csvFilePath);
+    const parser = parse({
+      skip_empty_lines: true,
+      relax_column_count: true,
+    });
+
+    let layout: { hasHeader: boolean; columnIndex: Map<KlineColumn, number> } | undefined;
+    let timestampDivisor: number | undefined;
+    let failed = false;
+
+    const fail = (error: Error) => {
+      if (!failed) {
+        failed = true;
+        stream.destroy();
+        reject(error);
+      }
+    };
+
+    parser.on('readable', () => {
+      let row: string[];
+      while (!failed && (row = parser.read()) !== null) {
+        try {
+          if (!layout) {
+            layout = detectColumns(row, csvFilePath);
+            if (layout.hasHeader) {
+              continue;
+            }
+          }
+          const { columnIndex } = layout;
+          const cell = (column: KlineColumn) => {
+            const index = columnIndex.get(column);
+            return index === undefined ? '' : row[index];
+          };
+
+          const rawOpenTime = parseInt(cell('open_time'));
+          if (timestampDivisor === undefined) {
+            if (isNaN(rawOpenTime)) {
+              throw new KlineFormatError(csvFilePath, `open_time "${cell('open_time')}" is not a timestamp`);
+            }
+            timestampDivisor = rawOpenTime >= MICROSECOND_THRESHOLD ? 1000 : 1;
+          }
+          const candleTimestamp = Math.floor(rawOpenTime / timestampDivisor);
+
+          if (
+            candleTimestamp >= startTimestamp &&
+            candleTimestamp <= endTimestamp
+          ) {
+            candles.push({
+              openTime: candleTimestamp,
+              open: parseFloat(cell('open')),
+              high: parseFloat(cell('high')),
+              low: parseFloat(cell('low')),
+              close: parseFloat(cell('close')),
+              volume: parseFloat(cell('volume')),
+              closeTime: Math.floor(parseInt(cell('close_time')) / timestampDivisor),
+              quoteAssetVolume: parseFloat(cell('quote_volume')),
+              trades: parseInt(cell('count')),
+              takerBuyBaseAssetVolume: parseFloat(cell('taker_buy_volume')),
+              takerBuyQuoteAssetVolume: parseFloat(cell('taker_buy_quote_volume')),
+              ignore: parseInt(cell('ignore'))
+            });
+          }
+        } catch (error) {
+          fail(error as Error);
+        }
+      }
+    });
+
+    parser.on('error', (err) => {
+      console.error('Error parsing CSV:', err);
+      fail(err);
+    });
+
+    parser.on('end', () => {
+      if (!failed) {
+        resolve(candles);
+      }
+    });
+
+    stream.on('error', fail);
+    stream.pipe(parser);
+  });
+}
+
+// Field order of a packed candle; used to hand candles to worker threads
+// through a SharedArrayBuffer instead of structured-cloning objects, and for
+// the columns of the binary candle cache
+export const PACKED_FIELDS: Array<keyof CandleData> = [
+  'openTime',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'closeTime',
+  'quoteAssetVolume',
+  'trades',
+  'takerBuyBaseAssetVolume',
+  'takerBuyQuoteAssetVolume',
+  'ignore',
+];
+
+export function packCandles(candles: CandleData[]): SharedArrayBuffer {
+  const buffer = new SharedArrayBuffer(
+    candles.length * PACKED_FIELDS.length * Float64Array.BYTES_PER_ELEMENT
+  );
+  const view = new Float64Array(buffer);
+  candles.forEach((candle, i) => {
+    PACKED_FIELDS.forEach((field, j) => {
+      view[i * PACKED_FIELDS.length + j] = candle[field];
+    });
+  });
+  return buffer;
+}
+
+export function unpackCandles(buffer: SharedArrayBuffer): CandleData[] {
+  const view = new Float64Array(buffer);
+  const count = view.length / PACKED_FIELDS.length;
+  const candles: CandleData[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const candle = {} as CandleData;
+    PACKED_FIELDS.forEach((field, j) => {
+      candle[field] = view[i * PACKED_FIELDS.length + j];
+    });
+    candles[i] = candle;
+  }
+  return candles;
+}
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import path from 'path';
+import { getKlineCsvDir, listKlineCsvFiles, readCandlesFromCsv } from './candle-loader';
+import { readMappedCsv, ResolvedCsvFormat } from './csv-candle-reader';
+import { DataAvailabilityManifest, listRequestedMonths } from './data-availability';
+import { DataFetcher } from './data-fetcher';
+import { readSymbolMetadataFile } from './symbol-metadata';
+import {
+  CandleData,
+  CandleSourceName,
+  CsvSourceFormat,
+  DownloadSummary,
+  SymbolInfo,
+  TradingConfig,
+} from './interfaces';
+
+export const CANDLE_SOURCES: readonly CandleSourceName[] = ['binance', 'okx', 'csv'];
+
+// Where the candles of a run come from. Timeframes passed in are backtest
+// timeframes; sources read dataFetch.resampleFrom candles instead when it is set.
+export interface CandleSource {
+  readonly name: CandleSourceName;
+  // Identifies how files are parsed, so cached candles parsed with other
+  // settings are not reused
+  readonly formatKey: string;
+  // Downloads the dataFetch range where the source supports it; local
+  // sources check that their files exist
+  fetchHistoricalData(symbol: string, timeframe: string): Promise<DownloadSummary>;
+  fetchSymbolInfo(symbol: string): Promise<SymbolInfo>;
+  // Candle files of the dataFetch range in chronological order
+  listFiles(symbol: string, timeframe: string): Promise<string[]>;
+  // Whether listMonthFiles narrows the files down to one month. Sources whose
+  // file names carry no dates list every file for every month.
+  readonly monthlyFiles: boolean;
+  // Files that may hold candles of one month (YYYY-MM) of a timeframe on disk
+  listMonthFiles(symbol: string, timeframe: string, month: string): string[];
+  readCandles(filePath: string, startTimestamp: number, endTimestamp: number): Promise<CandleData[]>;
+  // Warnings for months of the dataFetch range the source has no data for
+  findCoverageGaps(symbol: string, timeframe: string): string[];
+}
+
+function getSourceTimeframe(runConfig: TradingConfig, timeframe: string): string {
+  return runConfig.dataFetch.resampleFrom ?? timeframe;
+}
+
+// binance.vision archives downloaded into kline/ by DataFetcher
+export class BinanceCandleSource implements CandleSource {
+  public readonly name = 'binance';
+  public readonly formatKey = 'binance';
+  public readonly monthlyFiles = true;
+
+  constructor(private runConfig: TradingConfig) {}
+
+  private getFetcher(symbol: string, timeframe: string): DataFetcher {
+    return new DataFetcher(symbol, {
+      ...this.runConfig,
+      singleBacktest: { symbol, timeframe },
+    });
+  }
+
+  public fetchHistoricalData(symbol: string, timeframe: string): Promise<DownloadSummary> {
+    return this.getFetcher(symbol, timeframe).fetchHistoricalData();
+  }
+
+  public fetchSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    return this.getFetcher(symbol, this.runConfig.singleBacktest.timeframe).fetchSymbolInfo(symbol);
+  }
+
+  public listFiles(symbol: string, timeframe: string): Promise<string[]> {
+    return listKlineCsvFiles(symbol, timeframe, this.runConfig);
+  }
+
+  // Daily files stand in for a month whose monthly archive is not published yet
+  public listMonthFiles(symbol: string, timeframe: string, month: string): string[] {
+    const csvDir = getKlineCsvDir(symbol, timeframe, this.runConfig);
+    const monthPrefix = `${symbol}-${timeframe}-${month}`;
+    const csvPath = path.join(csvDir, `${monthPrefix}.csv`);
+
+    if (fs.existsSync(csvPath)) {
+      return [csvPath];
+    }
+    if (!fs.existsSync(csvDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(csvDir)
+      .filter((file) => file.startsWith(`${monthPrefix}-`) && file.endsWith('.csv'))
+      .sort()
+      .map((file) => path.join(csvDir, file));
+  }
+
+  public readCandles(filePath: string, startTimestamp: number, endTimestamp: number): Promise<CandleData[]> {
+    return readCandlesFromCsv(filePath, startTimestamp, endTimestamp);
+  }
+
+  public findCoverageGaps(symbol: string, timeframe: string): string[] {
+    return DataAvailabilityManifest.refresh(symbol, this.runConfig).findCoverageGaps(
+      getSourceTimeframe(this.runConfig, timeframe),
+      listRequestedMonths(this.runConfig)
+    );
+  }
+}
+
+// CSVs of any column layout in market.directory. Nothing is downloaded, and
+// since file names carry no dates every file is read and filtered by open time.
+export class CsvCandleSource implements CandleSource {
+  public readonly name: CandleSourceName = 'csv';
+  public readonly monthlyFiles = false;
+  protected format: ResolvedCsvFormat;
+
+  constructor(
+    protected runConfig: TradingConfig,
+    defaults?: CsvSourceFormat
+  ) {
+    const overrides = runConfig.market.csv;
+    this.format = {
+      hasHeader: true,
+      delimiter: ',',
+      timestampUnit: 'ms',
+      timezone: 'UTC',
+      ...defaults,
+      ...overrides,
+      columns: { ...defaults?.columns, ...overrides?.columns },
+    } as ResolvedCsvFormat;
+  }
+
+  public get formatKey(): string {
+    return `${this.name}:${JSON.stringify(this.format)}`;
+  }
+
+  private getDirectory(symbol: string, timeframe: string): string {
+    const directory = this.runConfig.market.directory;
+    if (!directory) {
+      throw new Error(`market.directory is required for the ${this.name} candle source`);
+    }
+    return path.resolve(directory.replace(/\{symbol\}/g, symbol).replace(/\{timeframe\}/g, timeframe));
+  }
+
+  public async fetchHistoricalData(symbol: string, timeframe: string): Promise<DownloadSummary> {
+    const sourceTimeframe = getSourceTimeframe(this.runConfig, timeframe);
+    const files = await this.listFiles(symbol, timeframe);
+    if (files.length === 0) {
+      throw new Error(
+        `No CSV files for ${symbol} - ${sourceTimeframe} in ${this.getDirectory(symbol, sourceTimeframe)}`
+      );
+    }
+    console.log(`Using ${files.length} local ${this.name} CSV files for ${symbol} - ${sourceTimeframe}`);
+    return { symbol, timeframe: sourceTimeframe, downloaded: [], missing: [] };
+  }
+
+  // Exchanges other than Binance are not queried; their symbols need an
+  // entry in the hand-written symbolMetadata.file
+  public async fetchSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const file = this.runConfig.symbolMetadata?.file;
+    const info = file ? readSymbolMetadataFile(file).get(symbol) : undefined;
+    if (!info) {
+      throw new Error(`No symbol info for ${symbol}; the ${this.name} source reads it from symbolMetadata.file`);
+    }
+    return info;
+  }
+
+  public async listFiles(symbol: string, timeframe: string): Promise<string[]> {
+    return this.listDirectory(symbol, getSourceTimeframe(this.runConfig, timeframe));
+  }
+
+  public listMonthFiles(symbol: string, timeframe: string): string[] {
+    return this.listDirectory(symbol, timeframe);
+  }
+
+  private listDirectory(symbol: string, timeframe: string): string[] {
+    const directory = this.getDirectory(symbol, timeframe);
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(directory)
+      .filter((file) => file.toLowerCase().endsWith('.csv'))
+      .sort()
+      .map((file) => path.join(directory, file));
+  }
+
+  public readCandles(filePath: string, startTimestamp: number, endTimestamp: number): Promise<CandleData[]> {
+    return readMappedCsv(filePath, this.format, startTimestamp, endTimestamp);
+  }
+
+  public findCoverageGaps(): string[] {
+    return [];
+  }
+}
+
+// OKX candlestick archive CSVs (instrument_name, open, high, low, close, vol,
+// vol_ccy, vol_quote, open_time, confirm). For derivatives vol counts
+// contracts and vol_ccy the base currency; for spot vol is the base currency.
+// Unconfirmed (still open) candles are skipped.
+export class OkxCandleSource extends CsvCandleSource {
+  public readonly name: CandleSourceName = 'okx';
+
+  constructor(runConfig: TradingConfig) {
+    super(runConfig, {
+      columns: {
+        openTime: 'open_time',
+        open: 'open',
+        high: 'high',
+        low: 'low',
+        close: 'close',
+        volume: runConfig.market.type === 'spot' ? 'vol' : 'vol_ccy',
+        quoteAssetVolume: 'vol_quote',
+      },
+      hasHeader: true,
+      timestampUnit: 'ms',
+    });
+  }
+
+  public readCandles(filePath: string, startTimestamp: number, endTimestamp: number): Promise<CandleData[]> {
+    return readMappedCsv(
+      filePath,
+      this.format,
+      startTimestamp,
+      endTimestamp,
+      (cell) => cell('confirm') !== '0'
+    );
+  }
+}
+
+export function createCandleSource(runConfig: TradingConfig): CandleSource {
+  switch (runConfig.market.source ?? 'binance') {
+    case 'okx':
+      return new OkxCandleSource(runConfig);
+    case 'csv':
+      return new CsvCandleSource(runConfig);
+    default:
+      return new BinanceCandleSource(runConfig);
+  }
+}
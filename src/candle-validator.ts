@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { getResultsDirectory, timeframeToMilliseconds } from './config';
+import {
+  CandleData,
+  CandleGap,
+  CandleIntegrityReport,
+  DataValidationMode,
+  TradingConfig,
+} from './interfaces';
+
+export class CandleIntegrityError extends Error {
+  constructor(public report: CandleIntegrityReport) {
+    super(`Candle integrity check failed for ${describeIntegrityIssues(report)}`);
+    this.name = 'CandleIntegrityError';
+  }
+}
+
+function hasInvalidPrice(candle: CandleData): boolean {
+  return [candle.open, candle.high, candle.low, candle.close].some(
+    (price) => !Number.isFinite(price) || price <= 0
+  );
+}
+
+// Candles the backtester cannot use at all; repair drops them
+function isInvalidCandle(candle: CandleData): boolean {
+  return hasInvalidPrice(candle) || candle.high < candle.low;
+}
+
+// Checks candles in load order for duplicate and out-of-order open times,
+// price anomalies and gaps in the openTime spacing of the timeframe
+export function validateCandles(
+  candles: CandleData[],
+  symbol: string,
+  timeframe: string,
+  mode: DataValidationMode
+): CandleIntegrityReport {
+  const seen = new Set<number>();
+  let duplicates = 0;
+  let outOfOrder = 0;
+  let invalidPrices = 0;
+  let highBelowLow = 0;
+
+  candles.forEach((candle, i) => {
+    if (hasInvalidPrice(candle)) {
+      invalidPrices++;
+    } else if (candle.high < candle.low) {
+      highBelowLow++;
+    }
+
+    if (seen.has(candle.openTime)) {
+      duplicates++;
+    } else if (i > 0 && candle.openTime < candles[i - 1].openTime) {
+      outOfOrder++;
+    }
+    seen.add(candle.openTime);
+  });
+
+  // Gaps are measured on the sorted unique open times so that ordering
+  // problems are not reported twice
+  const intervalMs = timeframeToMilliseconds(timeframe);
+  const openTimes = Array.from(seen).sort((a, b) => a - b);
+  const gaps: CandleGap[] = [];
+  for (let i = 1; i < openTimes.length; i++) {
+    const spacing = openTimes[i] - openTimes[i - 1];
+    if (spacing > intervalMs) {
+      gaps.push({
+        from: openTimes[i - 1],
+        to: openTimes[i],
+        missingCandles: Math.round(spacing / intervalMs) - 1,
+      });
+    }
+  }
+
+  return {
+    symbol,
+    timeframe,
+    candles: candles.length,
+    duplicates,
+    outOfOrder,
+    invalidPrices,
+    highBelowLow,
+    gaps,
+    missingCandles: gaps.reduce((sum, gap) => sum + gap.missingCandles, 0),
+    mode,
+    passed:
+      duplicates === 0 &&
+      outOfOrder === 0 &&
+      invalidPrices === 0 &&
+      highBelowLow === 0 &&
+      gaps.length === 0,
+  };
+}
+
+// Drops candles with invalid prices, keeps the first candle of each open
+// time and sorts by openTime. Gaps cannot be filled and stay in the report.
+export function repairCandles(candles: CandleData[]): CandleData[] {
+  const byOpenTime = new Map<number, CandleData>();
+  for (const candle of candles) {
+    if (!isInvalidCandle(candle) && !byOpenTime.has(candle.openTime)) {
+      byOpenTime.set(candle.openTime, candle);
+    }
+  }
+  return Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+}
+
+// One-line summary such as "ETHUSDT 1m: 2 duplicates, 1 gap (45 missing candles)"
+export function describeIntegrityIssues(report: CandleIntegrityReport): string {
+  const issues: string[] = [];
+  if (report.duplicates > 0) issues.push(`${report.duplicates} duplicate candles`);
+  if (report.outOfOrder > 0) issues.push(`${report.outOfOrder} out-of-order candles`);
+  if (report.invalidPrices > 0) issues.push(`${report.invalidPrices} zero/negative prices`);
+  if (report.highBelowLow > 0) issues.push(`${report.highBelowLow} candles with high < low`);
+  if (report.gaps.length > 0) {
+    issues.push(`${report.gaps.length} gaps (${report.missingCandles} missing candles)`);
+  }
+  return `${report.symbol} ${report.timeframe}: ${issues.length > 0 ? issues.join(', ') : 'no issues'}`;
+}
+
+// Saves the report next to the backtest results as TIMEFRAME_integrity.json
+export async function saveIntegrityReport(
+  report: CandleIntegrityReport,
+  runConfig: TradingConfig
+): Promise<string> {
+  const resultsDir = path.join(getResultsDirectory(runConfig), report.symbol);
+  await fs.promises.mkdir(resultsDir, { recursive: true });
+
+  const reportPath = path.join(resultsDir, `${report.timeframe}_integrity.json`);
+  await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2));
+  return reportPath;
+}
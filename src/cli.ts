@@ -0,0 +1,482 @@
+import fs from 'fs';
+import path from 'path';
+import { DataFetcher } from './data-fetcher';
+import { createCandleSource } from './candle-sources';
+import {
+  runBatchBacktest,
+  runOptimization,
+  runSingleBacktest,
+  runWalkForward,
+} from './run-backtest';
+import config, {
+  AVAILABLE_SYMBOLS,
+  AVAILABLE_TIMEFRAMES,
+  getResultsDirectory,
+  timeframeToMilliseconds,
+} from './config';
+import {
+  DataAvailabilityManifest,
+  formatMonth,
+  listRequestedMonths,
+  MonthStatus,
+  summarizeMonths,
+} from './data-availability';
+import { ConfigValidationError, listProfiles, loadConfigFile } from './config-loader';
+import { VOLATILITY_MEASURES } from './volatility';
+import { exportResults } from './trade-report';
+import { BacktestResult, TradingConfig, VolatilityMeasureName } from './interfaces';
+
+// Invalid arguments exit with 2, failed runs with 1
+class CliUsageError extends Error {}
+
+type Flags = Map<string, string | true>;
+
+interface FlagSpec {
+  name: string;
+  value?: string;
+  description: string;
+}
+
+interface Command {
+  description: string;
+  run(runConfig: TradingConfig, flags: Flags): Promise<void>;
+}
+
+const FLAGS: FlagSpec[] = [
+  { name: 'config', value: 'FILE', description: 'JSON or YAML config merged over src/config.ts' },
+  { name: 'profile', value: 'NAME', description: 'Named profile from the config file' },
+  { name: 'symbol', value: 'SYMBOL', description: 'Symbol, or comma-separated symbols for fetch/batch' },
+  { name: 'timeframe', value: 'TF', description: 'Timeframe, or comma-separated timeframes for fetch/batch' },
+  { name: 'resample-from', value: 'TF', description: 'Download only TF and resample it into the --timeframe values' },
+  { name: 'from', value: 'YYYY-MM', description: 'First month of data' },
+  { name: 'to', value: 'YYYY-MM', description: 'Last month of data' },
+  { name: 'market', value: 'um|cm|spot', description: 'USD-M futures, COIN-M futures or spot' },
+  { name: 'legend-trigger', value: 'N', description: 'strategy.legendTriggerMultiple' },
+  { name: 'entry-band', value: 'N', description: 'strategy.entryBandMultiple' },
+  { name: 'lookback', value: 'N', description: 'Lookback candles, replacing per-timeframe overrides' },
+  { name: 'volatility', value: 'MEASURE', description: 'strategy.volatilityMeasure' },
+  { name: 'max-look-forward', value: 'N', description: 'trade.maxLookForwardCandles' },
+  { name: 'hedging', description: 'Enable zone-recovery hedging' },
+  { name: 'parallel', description: 'Run batch combinations in parallel' },
+  { name: 'concurrency', value: 'N', description: 'Batch concurrency limit' },
+  { name: 'output', value: 'DIR', description: 'Results directory; with --results, where export writes its files' },
+  { name: 'results', value: 'FILE', description: 'report/export: results JSON to read instead of the --symbol/--timeframe one' },
+  { name: 'discover', description: 'status: probe the archive for the first and last listed month' },
+  { name: 'offline', description: 'Use cached symbol metadata, however old' },
+  { name: 'symbol-metadata', value: 'FILE', description: 'Hand-written symbol metadata JSON (e.g. delisted symbols)' },
+  { name: 'help', description: 'Show this help' },
+];
+
+function getList(flags: Flags, name: string, fallback: readonly string[]): string[] {
+  const value = flags.get(name);
+  if (typeof value !== 'string') {
+    return [...fallback];
+  }
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function getNumber(flags: Flags, name: string): number | undefined {
+  const value = flags.get(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new CliUsageError(`--${name} expects a positive number`);
+  }
+  return parsed;
+}
+
+function parseMonth(flags: Flags, name: string): { year: number; month: number } | undefined {
+  const value = flags.get(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})$/) : null;
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new CliUsageError(`--${name} expects a month as YYYY-MM`);
+  }
+  return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+export function parseArgs(argv: string[]): { command?: string; flags: Flags } {
+  const flags: Flags = new Map();
+  let command: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h') {
+      flags.set('help', true);
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      if (command) {
+        throw new CliUsageError(`Unexpected argument: ${arg}`);
+      }
+      command = arg;
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    const spec = FLAGS.find((flag) => flag.name === name);
+    if (!spec) {
+      throw new CliUsageError(`Unknown option: --${name}`);
+    }
+    if (!spec.value) {
+      flags.set(name, true);
+    } else if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags.set(name, argv[++i]);
+    } else {
+      throw new CliUsageError(`--${name} expects a value (${spec.value})`);
+    }
+  }
+
+  return { command, flags };
+}
+
+// Config file and profile given with --config / --profile, or src/config.ts
+function loadBaseConfig(flags: Flags): TradingConfig {
+  const configFile = flags.get('config');
+  const profile = flags.get('profile');
+  if (typeof profile === 'string' && typeof configFile !== 'string') {
+    throw new CliUsageError('--profile requires --config');
+  }
+  return typeof configFile === 'string'
+    ? loadConfigFile(configFile, typeof profile === 'string' ? profile : undefined)
+    : config;
+}
+
+// Applies the command-line overrides on top of the base config
+export function buildRunConfig(flags: Flags, baseConfig: TradingConfig = config): TradingConfig {
+  const runConfig: TradingConfig = {
+    ...baseConfig,
+    dataFetch: { ...baseConfig.dataFetch },
+    trade: { ...baseConfig.trade },
+    strategy: { ...baseConfig.strategy },
+    singleBacktest: { ...baseConfig.singleBacktest },
+    market: { ...baseConfig.market },
+    backtestMode: { ...baseConfig.backtestMode },
+  };
+
+  const symbol = flags.get('symbol');
+  if (typeof symbol === 'string') {
+    runConfig.singleBacktest.symbol = symbol.split(',')[0].trim().toUpperCase();
+  }
+  const timeframes = getList(flags, 'timeframe', []);
+  for (const timeframe of timeframes) {
+    try {
+      timeframeToMilliseconds(timeframe);
+    } catch (error) {
+      throw new CliUsageError(`Unsupported timeframe: ${timeframe}`);
+    }
+  }
+  if (timeframes.length > 0) {
+    runConfig.singleBacktest.timeframe = timeframes[0];
+  }
+
+  const resampleFrom = flags.get('resample-from');
+  if (typeof resampleFrom === 'string') {
+    if (!(AVAILABLE_TIMEFRAMES as readonly string[]).includes(resampleFrom)) {
+      throw new CliUsageError(`--resample-from expects one of ${AVAILABLE_TIMEFRAMES.join(', ')}`);
+    }
+    runConfig.dataFetch.resampleFrom = resampleFrom;
+  }
+  const unpublished = timeframes.filter(
+    (timeframe) => !(AVAILABLE_TIMEFRAMES as readonly string[]).includes(timeframe)
+  );
+  const isBinance = (runConfig.market.source ?? 'binance') === 'binance';
+  if (unpublished.length > 0 && !runConfig.dataFetch.resampleFrom && isBinance) {
+    throw new CliUsageError(
+      `${unpublished.join(', ')} not published by Binance; add --resample-from 1m to build from 1m klines`
+    );
+  }
+
+  const from = parseMonth(flags, 'from');
+  if (from) {
+    runConfig.dataFetch.startDate = from;
+  }
+  const to = parseMonth(flags, 'to');
+  if (to) {
+    runConfig.dataFetch.endDate = to;
+  }
+
+  const market = flags.get('market');
+  if (market === 'spot') {
+    const { subType, ...spotMarket } = runConfig.market;
+    runConfig.market = { ...spotMarket, type: 'spot' };
+  } else if (market === 'um' || market === 'cm') {
+    runConfig.market = { ...runConfig.market, type: 'futures', subType: market };
+  } else if (market !== undefined) {
+    throw new CliUsageError('--market expects um, cm or spot');
+  }
+
+  const legendTrigger = getNumber(flags, 'legend-trigger');
+  if (legendTrigger !== undefined) {
+    runConfig.strategy.legendTriggerMultiple = legendTrigger;
+  }
+  const entryBand = getNumber(flags, 'entry-band');
+  if (entryBand !== undefined) {
+    runConfig.strategy.entryBandMultiple = entryBand;
+  }
+  const lookback = getNumber(flags, 'lookback');
+  if (lookback !== undefined) {
+    runConfig.strategy.lookback = { candles: Math.round(lookback) };
+  }
+  const volatility = flags.get('volatility');
+  if (volatility !== undefined) {
+    if (!VOLATILITY_MEASURES.includes(volatility as VolatilityMeasureName)) {
+      throw new CliUsageError(`--volatility expects one of ${VOLATILITY_MEASURES.join(', ')}`);
+    }
+    runConfig.strategy.volatilityMeasure = volatility as VolatilityMeasureName;
+  }
+  const maxLookForward = getNumber(flags, 'max-look-forward');
+  if (maxLookForward !== undefined) {
+    runConfig.trade.maxLookForwardCandles = Math.round(maxLookForward);
+  }
+  if (flags.has('hedging')) {
+    if (!runConfig.trade.hedging) {
+      throw new CliUsageError('--hedging needs a trade.hedging block (lotMultiplier, netProfitTarget, maxLegs) in the config');
+    }
+    runConfig.trade.hedging = { ...runConfig.trade.hedging, enabled: true };
+  }
+
+  const concurrency = getNumber(flags, 'concurrency');
+  if (flags.has('parallel') || concurrency !== undefined) {
+    runConfig.backtestMode.batchProcessing = {
+      parallel: flags.has('parallel') || (runConfig.backtestMode.batchProcessing?.parallel ?? false),
+      concurrencyLimit:
+        concurrency ?? runConfig.backtestMode.batchProcessing?.concurrencyLimit ?? 5,
+    };
+  }
+
+  const output = flags.get('output');
+  if (typeof output === 'string') {
+    runConfig.output = { directory: output };
+  }
+
+  const symbolMetadataFile = flags.get('symbol-metadata');
+  if (flags.has('offline') || typeof symbolMetadataFile === 'string') {
+    runConfig.symbolMetadata = {
+      cacheMaxAgeHours: runConfig.symbolMetadata?.cacheMaxAgeHours ?? 24,
+      ...runConfig.symbolMetadata,
+      ...(flags.has('offline') ? { offline: true } : {}),
+      ...(typeof symbolMetadataFile === 'string' ? { file: symbolMetadataFile } : {}),
+    };
+  }
+
+  return runConfig;
+}
+
+async function fetchData(runConfig: TradingConfig, flags: Flags): Promise<void> {
+  const symbols = getList(flags, 'symbol', [runConfig.singleBacktest.symbol]);
+  const timeframes = getList(flags, 'timeframe', [runConfig.singleBacktest.timeframe]);
+
+  const candleSource = createCandleSource(runConfig);
+
+  for (const symbol of symbols.map((item) => item.toUpperCase())) {
+    for (const timeframe of timeframes) {
+      const { missing } = await candleSource.fetchHistoricalData(symbol, timeframe);
+      if (missing.length > 0) {
+        console.log(`⚠️ ${symbol} - ${timeframe} is missing ${missing.map(({ period }) => period).join(', ')}`);
+      } else {
+        console.log(`✅ Data ready for ${symbol} - ${timeframe}`);
+      }
+    }
+  }
+}
+
+// Lists, per symbol and timeframe, which months of the dataFetch range are
+// present, stale, missing or outside the archive listing
+async function printStatus(runConfig: TradingConfig, flags: Flags): Promise<void> {
+  const symbols = getList(flags, 'symbol', [runConfig.singleBacktest.symbol]).map((item) =>
+    item.toUpperCase()
+  );
+  const timeframes = getList(flags, 'timeframe', [runConfig.singleBacktest.timeframe]);
+  const months = listRequestedMonths(runConfig);
+  const order: MonthStatus[] = ['present', 'stale', 'missing', 'unlisted'];
+  const source = runConfig.market.source ?? 'binance';
+  if (source !== 'binance') {
+    throw new CliUsageError(`status covers Binance archives only; market.source is ${source}`);
+  }
+
+  for (const symbol of symbols) {
+    if (flags.has('discover')) {
+      await new DataFetcher(symbol, {
+        ...runConfig,
+        singleBacktest: { symbol, timeframe: timeframes[0] },
+      }).discoverListing();
+    }
+
+    const manifest = DataAvailabilityManifest.refresh(symbol, runConfig);
+    const { firstAvailable, lastAvailable, lastDiscovered } = manifest.getData();
+    console.log(`\n${symbol}`);
+    console.log(
+      firstAvailable && lastAvailable
+        ? `  Archive: ${formatMonth(firstAvailable)} to ${formatMonth(lastAvailable)} (discovered ${lastDiscovered})`
+        : lastDiscovered
+          ? `  Archive: no monthly archives found (discovered ${lastDiscovered})`
+          : '  Archive: listing unknown; run status --discover'
+    );
+
+    const timeframeWidth = Math.max(...timeframes.map((timeframe) => timeframe.length));
+    for (const timeframe of timeframes) {
+      const statuses = manifest.getMonthStatuses(timeframe, months);
+      const parts = order
+        .map((status) => ({ status, months: months.filter((month) => statuses.get(month) === status) }))
+        .filter(({ months: matching }) => matching.length > 0)
+        .map(({ status, months: matching }) => `${status} ${summarizeMonths(matching)}`);
+      console.log(`  ${timeframe.padEnd(timeframeWidth)}  ${parts.join(' | ')}`);
+    }
+  }
+}
+
+async function runBatch(runConfig: TradingConfig, flags: Flags): Promise<void> {
+  const symbols = getList(flags, 'symbol', AVAILABLE_SYMBOLS).map((item) => item.toUpperCase());
+  const timeframes = getList(flags, 'timeframe', AVAILABLE_TIMEFRAMES);
+
+  const failures = await runBatchBacktest(runConfig, symbols, timeframes);
+  if (failures.length > 0) {
+    throw new Error(`Failed combinations: ${failures.join(', ')}`);
+  }
+}
+
+// Results file of the --results flag, or of the single-backtest symbol and timeframe
+function getResultPath(runConfig: TradingConfig, flags: Flags): string {
+  const results = flags.get('results');
+  const { symbol, timeframe } = runConfig.singleBacktest;
+  const resultPath =
+    typeof results === 'string'
+      ? results
+      : path.join(getResultsDirectory(runConfig), symbol, `${timeframe}_results.json`);
+  if (!fs.existsSync(resultPath)) {
+    throw new Error(`No results found at ${resultPath}; run the backtest command first`);
+  }
+  return resultPath;
+}
+
+// Prints the stats and metrics of a saved single-backtest results file
+async function printReport(runConfig: TradingConfig, flags: Flags): Promise<void> {
+  const resultPath = getResultPath(runConfig, flags);
+
+  const result: BacktestResult = JSON.parse(await fs.promises.readFile(resultPath, 'utf8'));
+  console.log(`\n${result.symbol} ${result.timeframe} (${resultPath})`);
+  if (result.parameters) {
+    console.log('\nParameters:');
+    console.table(result.parameters);
+  }
+  console.log('\nStats:');
+  console.table(result.stats);
+  if (result.metrics) {
+    const { bySide, ...metrics } = result.metrics;
+    console.log('\nMetrics:');
+    console.table(metrics);
+    console.table(bySide);
+  }
+  for (const warning of result.warnings ?? []) {
+    console.log(`Warning: ${warning}`);
+  }
+}
+
+const COMMANDS: { [name: string]: Command } = {
+  fetch: {
+    description: 'Download kline data for the symbols and timeframes',
+    run: fetchData,
+  },
+  backtest: {
+    description: 'Run a single backtest',
+    run: (runConfig) => runSingleBacktest(runConfig),
+  },
+  batch: {
+    description: 'Backtest every symbol/timeframe combination and write a summary',
+    run: runBatch,
+  },
+  optimize: {
+    description: 'Grid-search the optimizer parameters',
+    run: (runConfig) => runOptimization(runConfig),
+  },
+  'walk-forward': {
+    description: 'Run walk-forward optimization',
+    run: (runConfig) => runWalkForward(runConfig),
+  },
+  status: {
+    description: 'Show which months are present, stale or missing on disk',
+    run: printStatus,
+  },
+  report: {
+    description: 'Print the stats and metrics of a saved backtest',
+    run: printReport,
+  },
+  export: {
+    description: 'Write a trade-log CSV and an HTML report next to a saved backtest, or into --output with --results',
+    run: async (runConfig, flags) => {
+      // Without --results the file is read from the --output results
+      // directory, so the exports already land there
+      const output = flags.get('output');
+      const outputDir = typeof output === 'string' && flags.has('results') ? path.resolve(output) : undefined;
+      const { csvPath, htmlPath } = await exportResults(getResultPath(runConfig, flags), outputDir);
+      console.log(`✅ Trade log saved to ${csvPath}`);
+      console.log(`✅ Report saved to ${htmlPath}`);
+    },
+  },
+  profiles: {
+    description: 'List the profiles of the --config file',
+    run: async (runConfig, flags) => {
+      const configFile = flags.get('config');
+      if (typeof configFile !== 'string') {
+        throw new CliUsageError('profiles requires --config');
+      }
+      const profiles = listProfiles(configFile);
+      console.log(profiles.length > 0 ? profiles.join('\n') : `No profiles in ${configFile}`);
+    },
+  },
+};
+
+function printHelp(): void {
+  const commandWidth = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  const flagLabels = FLAGS.map((flag) => `--${flag.name}${flag.value ? ` ${flag.value}` : ''}`);
+  const flagWidth = Math.max(...flagLabels.map((label) => label.length));
+
+  console.log('Usage: ts-node src/cli.ts <command> [options]\n');
+  console.log('Commands:');
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    console.log(`  ${name.padEnd(commandWidth)}  ${command.description}`);
+  }
+  console.log('\nOptions (override src/config.ts or the --config file):');
+  FLAGS.forEach((flag, i) => {
+    console.log(`  ${flagLabels[i].padEnd(flagWidth)}  ${flag.description}`);
+  });
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  try {
+    const { command, flags } = parseArgs(argv);
+    if (flags.has('help') || !command) {
+      printHelp();
+      return command || flags.has('help') ? 0 : 2;
+    }
+
+    const selected = COMMANDS[command];
+    if (!selected) {
+      throw new CliUsageError(`Unknown command: ${command}`);
+    }
+    await selected.run(buildRunConfig(flags, loadBaseConfig(flags)), flags);
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\nRun with --help for usage.`);
+      return 2;
+    }
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+      return 2;
+    }
+    console.error('❌ Command failed:', error);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main().then((exitCode) => process.exit(exitCode));
+}
@@ -0,0 +1,649 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import defaultConfig, { AVAILABLE_TIMEFRAMES, isValidTimeframe, timeframeToMilliseconds } from './config';
+import { VOLATILITY_MEASURES } from './volatility';
+import { CANDLE_SOURCES } from './candle-sources';
+import { isValidTimezone, REQUIRED_CSV_COLUMNS } from './csv-candle-reader';
+import { TradingConfig } from './interfaces';
+
+// Raised with every problem found in a config file, one per line
+export class ConfigValidationError extends Error {
+  constructor(
+    public source: string,
+    public errors: string[]
+  ) {
+    super(`Invalid config ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type Schema =
+  | { type: 'number'; min?: number; max?: number; integer?: boolean; exclusiveMin?: boolean }
+  | { type: 'string'; values?: readonly string[] }
+  | { type: 'boolean' }
+  | { type: 'timeframe' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: { [key: string]: Schema }; required?: string[] }
+  // keys 'timeframe' accepts any timeframe isValidTimeframe does
+  | { type: 'map'; keys?: readonly string[] | 'timeframe'; values: Schema }
+  | { type: 'oneOf'; variants: Schema[]; description: string };
+
+const positive: Schema = { type: 'number', min: 0, exclusiveMin: true };
+const nonNegative: Schema = { type: 'number', min: 0 };
+const positiveInteger: Schema = { type: 'number', min: 1, integer: true };
+const percent: Schema = { type: 'number', min: 0, max: 100 };
+
+const month: Schema = {
+  type: 'object',
+  properties: {
+    year: { type: 'number', min: 2000, max: 2100, integer: true },
+    month: { type: 'number', min: 1, max: 12, integer: true },
+  },
+  required: ['year', 'month'],
+};
+
+const exitLevel: Schema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', values: ['percent', 'thresholdMultiple', 'atr'] },
+    value: positive,
+  },
+  required: ['type', 'value'],
+};
+
+const feeRates: Schema = {
+  type: 'object',
+  properties: { maker: { type: 'number' }, taker: { type: 'number' } },
+  required: ['maker', 'taker'],
+};
+
+const csvColumn: Schema = {
+  type: 'oneOf',
+  description: 'a header name or a zero-based column index',
+  variants: [{ type: 'string' }, { type: 'number', min: 0, integer: true }],
+};
+
+const parameterRange: Schema = {
+  type: 'oneOf',
+  description: 'a list of numbers or { start, end, step }',
+  variants: [
+    { type: 'array', items: { type: 'number' } },
+    {
+      type: 'object',
+      properties: { start: { type: 'number' }, end: { type: 'number' }, step: positive },
+      required: ['start', 'end', 'step'],
+    },
+  ],
+};
+
+const TRADING_CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  required: ['dataFetch', 'trade', 'strategy', 'singleBacktest', 'market', 'backtestMode'],
+  properties: {
+    dataFetch: {
+      type: 'object',
+      properties: { startDate: month, endDate: month, resampleFrom: { type: 'timeframe' } },
+      required: ['startDate'],
+    },
+    trade: {
+      type: 'object',
+      required: ['maxLookForwardCandles'],
+      properties: {
+        maxLookForwardCandles: positiveInteger,
+        exit: {
+          type: 'object',
+          properties: {
+            takeProfit: exitLevel,
+            stopLoss: exitLevel,
+            maxHoldingCandles: positiveInteger,
+            atrPeriod: positiveInteger,
+          },
+        },
+        hedging: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            lotMultiplier: positive,
+            netProfitTarget: positive,
+            maxLegs: positiveInteger,
+          },
+          required: ['enabled', 'lotMultiplier', 'netProfitTarget', 'maxLegs'],
+        },
+        ambiguousCandles: {
+          type: 'object',
+          properties: {
+            policy: {
+              type: 'string',
+              values: ['pessimistic', 'optimistic', 'skip', 'openProximity'],
+            },
+            resolutionTimeframe: { type: 'timeframe' },
+          },
+          required: ['policy'],
+        },
+      },
+    },
+    strategy: {
+      type: 'object',
+      required: ['lookback', 'legendTriggerMultiple', 'entryBandMultiple'],
+      properties: {
+        lookback: {
+          type: 'object',
+          properties: {
+            candles: positiveInteger,
+            timeframeOverrides: {
+              type: 'map',
+              keys: 'timeframe',
+              values: positiveInteger,
+            },
+          },
+          required: ['candles'],
+        },
+        legendTriggerMultiple: positive,
+        entryBandMultiple: positive,
+        volatilityMeasure: { type: 'string', values: VOLATILITY_MEASURES },
+        plugins: {
+          type: 'object',
+          properties: {
+            legendDetector: { type: 'string' },
+            entryRule: { type: 'string' },
+            exitRule: { type: 'string' },
+            modulePath: { type: 'string' },
+          },
+        },
+      },
+    },
+    costs: {
+      type: 'object',
+      required: ['fees', 'slippage'],
+      properties: {
+        fees: {
+          type: 'object',
+          properties: { spot: feeRates, um: feeRates, cm: feeRates },
+          required: ['spot', 'um', 'cm'],
+        },
+        slippage: {
+          type: 'object',
+          properties: {
+            model: { type: 'string', values: ['none', 'fixedBps', 'rangeFraction', 'volume'] },
+            value: nonNegative,
+            volumeLookback: positiveInteger,
+          },
+          required: ['model', 'value'],
+        },
+        funding: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            ratePercent: { type: 'number' },
+            intervalHours: positive,
+          },
+          required: ['enabled', 'ratePercent', 'intervalHours'],
+        },
+      },
+    },
+    account: {
+      type: 'object',
+      required: ['initialBalance', 'sizing'],
+      properties: {
+        initialBalance: positive,
+        sizing: {
+          type: 'object',
+          properties: {
+            method: {
+              type: 'string',
+              values: ['fixedNotional', 'fixedFraction', 'volatilityTarget'],
+            },
+            value: positive,
+            maxLeverage: positive,
+          },
+          required: ['method', 'value'],
+        },
+      },
+    },
+    optimizer: {
+      type: 'object',
+      required: ['parameters', 'objective'],
+      properties: {
+        parameters: {
+          type: 'object',
+          properties: {
+            legendTriggerMultiple: parameterRange,
+            entryBandMultiple: parameterRange,
+            lookbackCandles: parameterRange,
+            maxLookForwardCandles: parameterRange,
+          },
+        },
+        objective: {
+          type: 'string',
+          values: ['netReturn', 'successRate', 'winRate', 'profitFactor', 'sharpeRatio', 'finalBalance'],
+        },
+        workers: positiveInteger,
+      },
+    },
+    walkForward: {
+      type: 'object',
+      required: ['mode', 'unit', 'inSample', 'outOfSample'],
+      properties: {
+        mode: { type: 'string', values: ['rolling', 'anchored'] },
+        unit: { type: 'string', values: ['months', 'candles'] },
+        inSample: positiveInteger,
+        outOfSample: positiveInteger,
+        step: positiveInteger,
+      },
+    },
+    monteCarlo: {
+      type: 'object',
+      required: ['iterations', 'confidenceLevel', 'skipProbability', 'positionFraction', 'ruinThreshold'],
+      properties: {
+        iterations: positiveInteger,
+        confidenceLevel: { type: 'number', min: 0, max: 100, exclusiveMin: true },
+        skipProbability: { type: 'number', min: 0, max: 1 },
+        positionFraction: percent,
+        ruinThreshold: percent,
+        seed: { type: 'number', integer: true },
+      },
+    },
+    symbolMetadata: {
+      type: 'object',
+      properties: {
+        cacheMaxAgeHours: nonNegative,
+        offline: { type: 'boolean' },
+        file: { type: 'string' },
+      },
+      required: ['cacheMaxAgeHours'],
+    },
+    download: {
+      type: 'object',
+      properties: {
+        baseUrl: { type: 'string' },
+        retries: { type: 'number', min: 0, integer: true },
+        backoffMs: nonNegative,
+        maxBackoffMs: nonNegative,
+        concurrency: positiveInteger,
+      },
+      required: ['baseUrl', 'retries', 'backoffMs', 'maxBackoffMs', 'concurrency'],
+    },
+    dataValidation: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', values: ['fail', 'warn', 'repair'] },
+        verifyChecksums: { type: 'boolean' },
+        checksumRetries: { type: 'number', min: 0, integer: true },
+      },
+      required: ['mode', 'verifyChecksums', 'checksumRetries'],
+    },
+    candleCache: {
+      type: 'object',
+      properties: { enabled: { type: 'boolean' } },
+      required: ['enabled'],
+    },
+    output: {
+      type: 'object',
+      properties: { directory: { type: 'string' } },
+      required: ['directory'],
+    },
+    singleBacktest: {
+      type: 'object',
+      // Any timeframe such as 45m; validateResolved checks it can be downloaded or resampled
+      properties: { symbol: { type: 'string' }, timeframe: { type: 'string' } },
+      required: ['symbol', 'timeframe'],
+    },
+    market: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', values: ['futures', 'spot'] },
+        subType: { type: 'string', values: ['um', 'cm'] },
+        source: { type: 'string', values: CANDLE_SOURCES },
+        directory: { type: 'string' },
+        csv: {
+          type: 'object',
+          properties: {
+            columns: {
+              type: 'object',
+              properties: {
+                openTime: csvColumn,
+                open: csvColumn,
+                high: csvColumn,
+                low: csvColumn,
+                close: csvColumn,
+                volume: csvColumn,
+                closeTime: csvColumn,
+                quoteAssetVolume: csvColumn,
+                trades: csvColumn,
+                takerBuyBaseAssetVolume: csvColumn,
+                takerBuyQuoteAssetVolume: csvColumn,
+              },
+            },
+            hasHeader: { type: 'boolean' },
+            delimiter: { type: 'string' },
+            timestampUnit: { type: 'string', values: ['s', 'ms', 'us', 'ns'] },
+            timezone: { type: 'string' },
+          },
+          required: ['columns'],
+        },
+      },
+      required: ['type'],
+    },
+    backtestMode: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', values: ['single', 'batch', 'optimize', 'walkForward'] },
+        batchProcessing: {
+          type: 'object',
+          properties: { parallel: { type: 'boolean' }, concurrencyLimit: positiveInteger },
+          required: ['parallel', 'concurrencyLimit'],
+        },
+      },
+      required: ['type'],
+    },
+  },
+};
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : `${typeof value} ${JSON.stringify(value)}`;
+
+// Checks `value` against `schema`, appending one message per problem. With
+// `partial`, required keys may be missing (config layers are merged later).
+function validateValue(
+  value: unknown,
+  schema: Schema,
+  at: string,
+  errors: string[],
+  partial: boolean
+): void {
+  switch (schema.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${at}: expected a number, got ${describe(value)}`);
+        return;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        errors.push(`${at}: expected an integer, got ${value}`);
+      }
+      if (schema.min !== undefined && (schema.exclusiveMin ? value <= schema.min : value < schema.min)) {
+        errors.push(`${at}: must be ${schema.exclusiveMin ? 'greater than' : 'at least'} ${schema.min}, got ${value}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        errors.push(`${at}: must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${at}: expected a string, got ${describe(value)}`);
+      } else if (schema.values && !schema.values.includes(value)) {
+        errors.push(`${at}: unknown value "${value}", expected one of ${schema.values.join(', ')}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${at}: expected true or false, got ${describe(value)}`);
+      }
+      return;
+    case 'timeframe':
+      if (typeof value !== 'string' || !(AVAILABLE_TIMEFRAMES as readonly string[]).includes(value)) {
+        errors.push(`${at}: unknown timeframe ${describe(value)}, expected one of ${AVAILABLE_TIMEFRAMES.join(', ')}`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected a list, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => validateValue(item, schema.items, `${at}[${i}]`, errors, partial));
+      return;
+    case 'map':
+      if (!isPlainObject(value)) {
+        errors.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        if (schema.keys === 'timeframe' ? !isValidTimeframe(key) : schema.keys && !schema.keys.includes(key)) {
+          errors.push(
+            `${at}: unknown key "${key}", expected ${
+              schema.keys === 'timeframe' ? 'a timeframe such as 15m, 3h or 2d' : `one of ${schema.keys!.join(', ')}`
+            }`
+          );
+          continue;
+        }
+        validateValue(item, schema.values, `${at}.${key}`, errors, partial);
+      }
+      return;
+    case 'object':
+      if (!isPlainObject(value)) {
+        errors.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const propertySchema = schema.properties[key];
+        if (!propertySchema) {
+          errors.push(`${at ? `${at}.` : ''}${key}: unknown key`);
+        } else if (item !== null) {
+          // null removes an optional block inherited from the defaults
+          validateValue(item, propertySchema, at ? `${at}.${key}` : key, errors, partial);
+        } else if (schema.required?.includes(key)) {
+          errors.push(`${at ? `${at}.` : ''}${key}: is required and cannot be null`);
+        }
+      }
+      if (!partial) {
+        for (const key of schema.required ?? []) {
+          if (value[key] === undefined) {
+            errors.push(`${at ? `${at}.` : ''}${key}: is required`);
+          }
+        }
+      }
+      return;
+    case 'oneOf': {
+      const matches = schema.variants.some((variant) => {
+        const variantErrors: string[] = [];
+        validateValue(value, variant, at, variantErrors, partial);
+        return variantErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${at}: expected ${schema.description}, got ${describe(value)}`);
+      }
+      return;
+    }
+  }
+}
+
+// Rules spanning several fields, checked on each config layer as written
+function validateLayer(layer: { [key: string]: unknown }, at: string, errors: string[]): void {
+  const prefix = at ? `${at}.` : '';
+  const market = layer.market;
+  if (isPlainObject(market) && market.type === 'spot' && market.subType !== undefined) {
+    errors.push(`${prefix}market.subType: only applies to futures markets, remove it for spot`);
+  }
+}
+
+// Local sources need a directory, and the csv source a full column mapping
+function validateCandleSource(runConfig: TradingConfig, errors: string[]): void {
+  const { source = 'binance', directory, csv } = runConfig.market;
+  if (source === 'binance') {
+    return;
+  }
+  if (!directory) {
+    errors.push(`market.directory: is required for the ${source} candle source`);
+  }
+  if (source === 'csv') {
+    const missing = REQUIRED_CSV_COLUMNS.filter((column) => csv?.columns[column] === undefined);
+    if (missing.length > 0) {
+      errors.push(`market.csv.columns: the csv source needs a mapping for ${missing.join(', ')}`);
+    }
+  }
+  if (csv?.hasHeader === false) {
+    const named = Object.entries(csv.columns)
+      .filter(([, column]) => typeof column === 'string')
+      .map(([field]) => field);
+    if (named.length > 0) {
+      errors.push(`market.csv.columns: ${named.join(', ')} must be column indices when hasHeader is false`);
+    }
+  }
+  if (csv?.timezone !== undefined && !isValidTimezone(csv.timezone)) {
+    errors.push(
+      `market.csv.timezone: unknown timezone "${csv.timezone}", expected UTC, an offset such as +08:00 or an IANA name`
+    );
+  }
+}
+
+// Rules spanning several fields of the fully merged config
+function validateResolved(runConfig: TradingConfig, errors: string[]): void {
+  const { startDate, endDate } = runConfig.dataFetch;
+  const formatMonth = (date: { year: number; month: number }) =>
+    `${date.year}-${String(date.month).padStart(2, '0')}`;
+  if (endDate && endDate.year * 12 + endDate.month < startDate.year * 12 + startDate.month) {
+    errors.push(
+      `dataFetch.endDate: ${formatMonth(endDate)} is before dataFetch.startDate ${formatMonth(startDate)}`
+    );
+  }
+  if (runConfig.market.type === 'futures' && !runConfig.market.subType) {
+    errors.push('market.subType: is required for futures markets (um or cm)');
+  }
+  validateCandleSource(runConfig, errors);
+
+  const { timeframe } = runConfig.singleBacktest;
+  const { resampleFrom } = runConfig.dataFetch;
+  if (!isValidTimeframe(timeframe)) {
+    errors.push(`singleBacktest.timeframe: unknown timeframe "${timeframe}", expected e.g. 15m, 4h or 1d`);
+    return;
+  }
+  if (resampleFrom) {
+    const baseMs = timeframeToMilliseconds(resampleFrom);
+    const targetMs = timeframeToMilliseconds(timeframe);
+    if (targetMs < baseMs || targetMs % baseMs !== 0) {
+      errors.push(
+        `dataFetch.resampleFrom: ${timeframe} is not a multiple of ${resampleFrom}, so it cannot be built from it`
+      );
+    }
+  } else if (
+    (runConfig.market.source ?? 'binance') === 'binance' &&
+    !(AVAILABLE_TIMEFRAMES as readonly string[]).includes(timeframe)
+  ) {
+    errors.push(
+      `singleBacktest.timeframe: ${timeframe} is not published by Binance; set dataFetch.resampleFrom to build it from e.g. 1m`
+    );
+  }
+
+  const resolution = runConfig.trade.ambiguousCandles?.resolutionTimeframe;
+  if (
+    resolution &&
+    timeframeToMilliseconds(resolution) > timeframeToMilliseconds(runConfig.singleBacktest.timeframe)
+  ) {
+    errors.push(
+      `trade.ambiguousCandles.resolutionTimeframe: ${resolution} is longer than the backtest timeframe ${runConfig.singleBacktest.timeframe}`
+    );
+  }
+}
+
+// Objects merge key by key; arrays and scalars replace; null removes the key
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: { [key: string]: unknown } = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = deepMerge(merged[key], value);
+    }
+  }
+  return merged as T;
+}
+
+function parseConfigFile(filePath: string): unknown {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (extension === '.json') {
+      return JSON.parse(text);
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return YAML.parse(text);
+    }
+  } catch (error) {
+    throw new ConfigValidationError(filePath, [(error as Error).message]);
+  }
+  throw new ConfigValidationError(filePath, [
+    `unsupported extension "${extension}", expected .json, .yaml or .yml`,
+  ]);
+}
+
+// Names of the profiles defined in a config file
+export function listProfiles(filePath: string): string[] {
+  const contents = parseConfigFile(filePath);
+  return isPlainObject(contents) && isPlainObject(contents.profiles)
+    ? Object.keys(contents.profiles)
+    : [];
+}
+
+// Loads a JSON or YAML config file and deep-merges it over the defaults.
+// Top-level keys apply to every run; `profiles` holds named overrides that
+// are merged on top when selected.
+export function loadConfigFile(
+  filePath: string,
+  profile?: string,
+  baseConfig: TradingConfig = defaultConfig
+): TradingConfig {
+  const contents = parseConfigFile(filePath);
+  if (!isPlainObject(contents)) {
+    throw new ConfigValidationError(filePath, [`expected an object at the top level, got ${describe(contents)}`]);
+  }
+
+  const { profiles, ...shared } = contents;
+  const errors: string[] = [];
+  validateValue(shared, TRADING_CONFIG_SCHEMA, '', errors, true);
+  validateLayer(shared, '', errors);
+
+  const layers: unknown[] = [shared];
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) {
+      errors.push(`profiles: expected an object of named profiles, got ${describe(profiles)}`);
+    } else {
+      for (const [name, overrides] of Object.entries(profiles)) {
+        validateValue(overrides, TRADING_CONFIG_SCHEMA, `profiles.${name}`, errors, true);
+        if (isPlainObject(overrides)) {
+          validateLayer(overrides, `profiles.${name}`, errors);
+        }
+      }
+    }
+  }
+
+  if (profile !== undefined) {
+    if (!isPlainObject(profiles) || !(profile in profiles)) {
+      const available = isPlainObject(profiles) ? Object.keys(profiles) : [];
+      errors.push(
+        `profile "${profile}" not found${available.length > 0 ? `, available: ${available.join(', ')}` : ''}`
+      );
+    } else {
+      layers.push(profiles[profile]);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(filePath, errors);
+  }
+
+  let runConfig = layers.reduce<TradingConfig>((merged, layer) => deepMerge(merged, layer), baseConfig);
+  // A futures subType inherited from the defaults or the shared layer does
+  // not apply once a layer switches the market to spot
+  if (runConfig.market.type === 'spot' && runConfig.market.subType !== undefined) {
+    const { subType, ...spotMarket } = runConfig.market;
+    runConfig = { ...runConfig, market: spotMarket };
+  }
+  validateValue(runConfig, TRADING_CONFIG_SCHEMA, '', errors, false);
+  if (errors.length === 0) {
+    validateResolved(runConfig, errors);
+  }
+  if (errors.length > 0) {
+    throw new ConfigValidationError(`${filePath}${profile ? ` (profile ${profile})` : ''}`, errors);
+  }
+
+  return runConfig;
+}
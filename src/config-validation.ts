@@ -0,0 +1,105 @@
+import defaultConfig, { AVAILABLE_TIMEFRAMES, isValidTimeframe, timeframeToMilliseconds } from './config';
+import { resolvePluginNames } from './strategies';
+import { EffectiveStrategyParameters, TradingConfig } from './interfaces';
+
+// Resolves the strategy parameters a run will actually use
+export function resolveStrategyParameters(runConfig: TradingConfig): EffectiveStrategyParameters {
+  const { strategy } = runConfig;
+  const timeframe = runConfig.singleBacktest.timeframe;
+  const override = strategy.lookback.timeframeOverrides?.[timeframe];
+
+  return {
+    timeframe,
+    lookbackCandles: override ?? strategy.lookback.candles,
+    lookbackSource: override !== undefined ? 'timeframeOverride' : 'candles',
+    legendTriggerMultiple: strategy.legendTriggerMultiple,
+    entryBandMultiple: strategy.entryBandMultiple,
+    volatilityMeasure: strategy.volatilityMeasure ?? 'bodySma',
+    maxLookForwardCandles: runConfig.trade.maxLookForwardCandles,
+    ...resolvePluginNames(runConfig),
+  };
+}
+
+// Config values that are set but have no effect on the run, e.g. exit levels
+// while the zone-recovery exit is active or keys from older config layouts
+export function findUnusedConfig(runConfig: TradingConfig): string[] {
+  const warnings: string[] = [];
+  const { strategy, trade, costs } = runConfig;
+  const timeframe = runConfig.singleBacktest.timeframe;
+  const { exitRule } = resolvePluginNames(runConfig);
+
+  for (const legacyKey of ['lookbackPeriod', 'threshold', 'thresholdMultiplier']) {
+    if (legacyKey in strategy) {
+      warnings.push(
+        `strategy.${legacyKey} is no longer read; use strategy.lookback, strategy.legendTriggerMultiple and strategy.entryBandMultiple`
+      );
+    }
+  }
+
+  for (const overrideTimeframe of Object.keys(strategy.lookback.timeframeOverrides ?? {})) {
+    if (!isValidTimeframe(overrideTimeframe)) {
+      warnings.push(
+        `strategy.lookback.timeframeOverrides.${overrideTimeframe} is not a timeframe such as 15m, 3h or 2d`
+      );
+    }
+  }
+
+  // A candles value other than the default was set on purpose, so an
+  // override hiding it (such as the default per-timeframe ones) is likely a
+  // mistake
+  const override = strategy.lookback.timeframeOverrides?.[timeframe];
+  const { candles } = strategy.lookback;
+  if (override !== undefined && override !== candles && candles !== defaultConfig.strategy.lookback.candles) {
+    warnings.push(
+      `strategy.lookback.candles (${candles}) is shadowed by strategy.lookback.timeframeOverrides.${timeframe} (${override}); set timeframeOverrides to null to use candles on every timeframe`
+    );
+  }
+
+  if (exitRule === 'zoneRecovery' && (trade.exit?.takeProfit || trade.exit?.stopLoss)) {
+    warnings.push(
+      'trade.exit.takeProfit and trade.exit.stopLoss are unused by the zoneRecovery exit rule; only maxHoldingCandles applies'
+    );
+  }
+  if (exitRule !== 'zoneRecovery' && trade.hedging?.enabled) {
+    warnings.push(`trade.hedging is enabled but unused by the ${exitRule} exit rule`);
+  }
+
+  // Nothing is finer than the shortest archive timeframe, so no resolution
+  // timeframe could apply to it
+  const resolutionTimeframe = trade.ambiguousCandles?.resolutionTimeframe;
+  if (
+    resolutionTimeframe &&
+    timeframe !== AVAILABLE_TIMEFRAMES[0] &&
+    timeframeToMilliseconds(resolutionTimeframe) >= timeframeToMilliseconds(timeframe)
+  ) {
+    warnings.push(
+      `trade.ambiguousCandles.resolutionTimeframe (${resolutionTimeframe}) is not below the backtest timeframe (${timeframe}); the ${trade.ambiguousCandles!.policy} policy decides ambiguous candles`
+    );
+  }
+
+  if (costs?.slippage.volumeLookback !== undefined && costs.slippage.model !== 'volume') {
+    warnings.push(
+      `costs.slippage.volumeLookback is unused by the ${costs.slippage.model} slippage model`
+    );
+  }
+  if (costs?.funding?.enabled && runConfig.market.type === 'spot') {
+    warnings.push('costs.funding is unused on spot markets');
+  }
+
+  return warnings;
+}
+
+const reportedWarnings = new Set<string>();
+
+// Logs each unused-config warning once per process, since batch and
+// optimizer runs build many backtests from the same config
+export function reportUnusedConfig(runConfig: TradingConfig): string[] {
+  const warnings = findUnusedConfig(runConfig);
+  for (const warning of warnings) {
+    if (!reportedWarnings.has(warning)) {
+      reportedWarnings.add(warning);
+      console.log(`Warning: ${warning}`);
+    }
+  }
+  return warnings;
+}
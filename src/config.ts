@@ -1,3 +1,4 @@
+import path from 'path';
 import { TradingConfig } from './interfaces';
 
 export const AVAILABLE_SYMBOLS = [
@@ -25,23 +26,46 @@ export const AVAILABLE_TIMEFRAMES = [
   '1d',
 ] as const;
 
-// Helper function to get lookback period based on timeframe
-function getLookbackPeriod(timeframe: string): number {
-  const timeframeMap: { [key: string]: number } = {
-    '1m': 200,
-    '3m': 150,
-    '5m': 120,
-    '15m': 100,
-    '30m': 80,
-    '1h': 60,
-    '2h': 48,
-    '4h': 36,
-    '6h': 24,
-    '8h': 20,
-    '12h': 15,
-    '1d': 10,
+// Converts a timeframe such as '15m', '4h' or '1d' into milliseconds
+export function timeframeToMilliseconds(timeframe: string): number {
+  const match = timeframe.match(/^(\d+)([mhdw])$/);
+  if (!match) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+  const unitMs: { [key: string]: number } = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
   };
-  return timeframeMap[timeframe] || 200;
+  return parseInt(match[1]) * unitMs[match[2]];
+}
+
+// Whether timeframeToMilliseconds accepts `timeframe`, including timeframes
+// Binance does not publish such as 45m or 2d
+export function isValidTimeframe(timeframe: string): boolean {
+  return /^\d+[mhdw]$/.test(timeframe) && parseInt(timeframe) > 0;
+}
+
+// The futures subType, or spot. Names the kline, cache and fee
+// directories of a market.
+export function getMarketKey(runConfig: TradingConfig): 'spot' | 'um' | 'cm' {
+  const { type, subType } = runConfig.market;
+  if (type === 'spot') {
+    return 'spot';
+  }
+  if (!subType) {
+    throw new Error('market.subType is required for futures markets (um or cm)');
+  }
+  return subType;
+}
+
+// Root directory for result files. A relative output.directory is resolved
+// from the working directory.
+export function getResultsDirectory(runConfig: TradingConfig): string {
+  return runConfig.output?.directory
+    ? path.resolve(runConfig.output.directory)
+    : path.join(__dirname, '..', 'results');
 }
 
 const config: TradingConfig = {
@@ -57,13 +81,112 @@ const config: TradingConfig = {
   },
   trade: {
     maxLookForwardCandles: 100,
+    exit: {
+      takeProfit: { type: 'thresholdMultiple', value: 1 },
+      stopLoss: { type: 'thresholdMultiple', value: 1 },
+      maxHoldingCandles: 100,
+      atrPeriod: 14,
+    },
+    hedging: {
+      enabled: false,
+      lotMultiplier: 2,
+      netProfitTarget: 1,
+      maxLegs: 5,
+    },
+    ambiguousCandles: {
+      policy: 'pessimistic',
+      resolutionTimeframe: '1m',
+    },
   },
   strategy: {
-    lookbackPeriod: {
+    lookback: {
       candles: 200,
-      threshold: 15,
-      thresholdMultiplier: 15,
+      timeframeOverrides: {
+        '1m': 200,
+        '3m': 150,
+        '5m': 120,
+        '15m': 100,
+        '30m': 80,
+        '1h': 60,
+        '2h': 48,
+        '4h': 36,
+        '6h': 24,
+        '8h': 20,
+        '12h': 15,
+        '1d': 10,
+      },
+    },
+    legendTriggerMultiple: 15,
+    entryBandMultiple: 15,
+    volatilityMeasure: 'bodySma',
+    plugins: {
+      legendDetector: 'volatilityBreakout',
+      entryRule: 'thresholdBreakout',
+      // exitRule defaults to 'zoneRecovery' with hedging and 'targetStop' otherwise
+    },
+  },
+  costs: {
+    fees: {
+      spot: { maker: 0.1, taker: 0.1 },
+      um: { maker: 0.02, taker: 0.05 },
+      cm: { maker: 0.02, taker: 0.05 },
     },
+    slippage: {
+      model: 'fixedBps',
+      value: 1,
+    },
+    funding: {
+      enabled: true,
+      ratePercent: 0.01,
+      intervalHours: 8,
+    },
+  },
+  account: {
+    initialBalance: 10000,
+    sizing: {
+      method: 'fixedFraction',
+      value: 10,
+      maxLeverage: 1,
+    },
+  },
+  optimizer: {
+    parameters: {
+      legendTriggerMultiple: [10, 15, 20],
+      entryBandMultiple: { start: 5, end: 20, step: 5 },
+      maxLookForwardCandles: [50, 100],
+    },
+    objective: 'netReturn',
+  },
+  walkForward: {
+    mode: 'rolling',
+    unit: 'months',
+    inSample: 3,
+    outOfSample: 1,
+  },
+  monteCarlo: {
+    iterations: 1000,
+    confidenceLevel: 95,
+    skipProbability: 0.1,
+    positionFraction: 10,
+    ruinThreshold: 50,
+  },
+  symbolMetadata: {
+    cacheMaxAgeHours: 24,
+  },
+  download: {
+    baseUrl: 'https://data.binance.vision',
+    retries: 3,
+    backoffMs: 1000,
+    maxBackoffMs: 30000,
+    concurrency: 4,
+  },
+  dataValidation: {
+    mode: 'warn',
+    verifyChecksums: true,
+    checksumRetries: 2,
+  },
+  candleCache: {
+    enabled: true,
   },
   singleBacktest: {
     symbol: 'ETHUSDT',
@@ -72,9 +195,10 @@ const config: TradingConfig = {
   market: {
     type: 'futures',
     subType: 'um',
+    source: 'binance', // or okx / csv with market.directory (see README)
   },
   backtestMode: {
-    type: 'single', //or single or batch
+    type: 'single', //or single, batch, optimize or walkForward
     batchProcessing: {
       parallel: true,
       concurrencyLimit: 5,
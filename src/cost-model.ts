@@ -0,0 +1,95 @@
+import { getMarketKey } from './config';
+import { CandleData, CostConfig, TradingConfig } from './interfaces';
+
+export type Liquidity = 'maker' | 'taker';
+
+// Cost of a single fill, in quote currency
+export interface FillCost {
+  fee: number;
+  slippage: number;
+}
+
+// Prices fees, slippage and funding for simulated fills. Rates in the config
+// are percentages (0.05 = 0.05%) and slippage is always adverse to the fill.
+export class CostModel {
+  private costs?: CostConfig;
+  private marketKey: 'spot' | 'um' | 'cm';
+
+  constructor(runConfig: TradingConfig) {
+    this.costs = runConfig.costs;
+    this.marketKey = getMarketKey(runConfig);
+  }
+
+  public get enabled(): boolean {
+    return this.costs !== undefined;
+  }
+
+  public getFeeRate(liquidity: Liquidity): number {
+    if (!this.costs) return 0;
+    return this.costs.fees[this.marketKey][liquidity];
+  }
+
+  // Slippage as a fraction of the fill price for a fill on candles[index]
+  public getSlippageFraction(candles: CandleData[], index: number, price: number): number {
+    const slippage = this.costs?.slippage;
+    if (!slippage || price <= 0) return 0;
+
+    const candle = candles[index];
+    switch (slippage.model) {
+      case 'none':
+        return 0;
+      case 'fixedBps':
+        return slippage.value / 10000;
+      case 'rangeFraction':
+        return (slippage.value * (candle.high - candle.low)) / price;
+      case 'volume': {
+        // value bps at average volume, scaled up on thinner candles
+        const lookback = slippage.volumeLookback ?? 20;
+        const start = Math.max(0, index - lookback);
+        let volumeSum = 0;
+        for (let i = start; i < index; i++) {
+          volumeSum += candles[i].volume;
+        }
+        const averageVolume = index > start ? volumeSum / (index - start) : candle.volume;
+        const ratio = candle.volume > 0 ? averageVolume / candle.volume : 1;
+        return (slippage.value / 10000) * Math.max(ratio, 0);
+      }
+      default: {
+        const model: never = slippage.model;
+        throw new Error(`Unsupported slippage model: ${model}`);
+      }
+    }
+  }
+
+  public getFillCost(
+    candles: CandleData[],
+    index: number,
+    price: number,
+    quantity: number,
+    liquidity: Liquidity
+  ): FillCost {
+    const notional = price * quantity;
+    return {
+      fee: notional * (this.getFeeRate(liquidity) / 100),
+      slippage: notional * this.getSlippageFraction(candles, index, price),
+    };
+  }
+
+  // Funding paid (positive) or received (negative) for a position held from
+  // openTime to closeTime. A positive rate means longs pay shorts.
+  public getFundingCost(
+    side: 'LONG' | 'SHORT',
+    notional: number,
+    openTime: number,
+    closeTime: number
+  ): number {
+    const funding = this.costs?.funding;
+    if (!funding || !funding.enabled || this.marketKey === 'spot') return 0;
+
+    const intervalMs = funding.intervalHours * 60 * 60 * 1000;
+    const fundingEvents =
+      Math.floor(closeTime / intervalMs) - Math.floor(openTime / intervalMs);
+    const direction = side === 'LONG' ? 1 : -1;
+    return direction * fundingEvents * notional * (funding.ratePercent / 100);
+  }
+}
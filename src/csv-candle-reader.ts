@@ -0,0 +1,272 @@
+import fs from 'fs';
+import { parse } from 'csv-parse';
+import { KlineFormatError } from './candle-loader';
+import { CandleData, CsvColumn, CsvColumnMapping, CsvSourceFormat, TimestampUnit } from './interfaces';
+
+// Fully specified layout of a CSV, after defaults
+export type ResolvedCsvFormat = Required<Omit<CsvSourceFormat, 'columns'>> & {
+  columns: CsvColumnMapping;
+};
+
+export const REQUIRED_CSV_COLUMNS: Array<keyof CsvColumnMapping> = [
+  'openTime',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+];
+
+const OPTIONAL_CSV_COLUMNS: Array<keyof CsvColumnMapping> = [
+  'closeTime',
+  'quoteAssetVolume',
+  'trades',
+  'takerBuyBaseAssetVolume',
+  'takerBuyQuoteAssetVolume',
+];
+
+const UNIT_MS: { [unit in TimestampUnit]: number } = {
+  s: 1000,
+  ms: 1,
+  us: 1 / 1000,
+  ns: 1 / 1e6,
+};
+
+const FIXED_OFFSET = /^([+-])(\d{2}):?(\d{2})$/;
+const DATE_TIME =
+  /^(\d{4})[-/](\d{2})[-/](\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+const timezoneFormats: Map<string, Intl.DateTimeFormat> = new Map();
+
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone === 'UTC' || FIXED_OFFSET.test(timezone)) {
+    return true;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// How far the wall clock of `timezone` is ahead of UTC at `instant`
+function getTimezoneOffsetMs(timezone: string, instant: number): number {
+  if (timezone === 'UTC' || timezone === 'Z') {
+    return 0;
+  }
+  const fixed = timezone.match(FIXED_OFFSET);
+  if (fixed) {
+    return (fixed[1] === '-' ? -1 : 1) * (Number(fixed[2]) * 60 + Number(fixed[3])) * 60 * 1000;
+  }
+
+  let format = timezoneFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    timezoneFormats.set(timezone, format);
+  }
+  const parts = format.formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Parses a numeric timestamp in `unit`, or a date-time string that is taken
+// to be in `timezone` unless it carries its own offset. Returns NaN when the
+// value is neither.
+export function parseTimestamp(value: string, unit: TimestampUnit, timezone: string): number {
+  const trimmed = value.trim();
+  if (trimmed !== '' && !isNaN(Number(trimmed))) {
+    return Math.floor(Number(trimmed) * UNIT_MS[unit]);
+  }
+
+  const match = trimmed.match(DATE_TIME);
+  if (!match) {
+    return NaN;
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0', millis = '0', zone] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(millis.padEnd(3, '0'))
+  );
+  if (zone) {
+    return wallClock - getTimezoneOffsetMs(zone, wallClock);
+  }
+  // The offset at the guessed instant is right except within an hour of a
+  // daylight saving change, which a second pass corrects
+  const guess = wallClock - getTimezoneOffsetMs(timezone, wallClock);
+  return wallClock - getTimezoneOffsetMs(timezone, guess);
+}
+
+// Resolves each mapped column to its index, from the header row when the
+// file has one
+function resolveColumnIndices(
+  format: ResolvedCsvFormat,
+  header: string[] | undefined,
+  csvFilePath: string
+): Map<keyof CsvColumnMapping, number> {
+  const indices = new Map<keyof CsvColumnMapping, number>();
+  const missing: string[] = [];
+  for (const field of [...REQUIRED_CSV_COLUMNS, ...OPTIONAL_CSV_COLUMNS]) {
+    const column: CsvColumn | undefined = format.columns[field];
+    if (column === undefined) {
+      continue;
+    }
+    const index = typeof column === 'number' ? column : header?.indexOf(column) ?? -1;
+    if (index < 0) {
+      missing.push(String(column));
+    } else {
+      indices.set(field, index);
+    }
+  }
+  if (missing.length > 0) {
+    throw new KlineFormatError(
+      csvFilePath,
+      header
+        ? `header "${header.join(format.delimiter)}" lacks ${missing.join(', ')}`
+        : `columns ${missing.join(', ')} need an index, the file has no header`
+    );
+  }
+  return indices;
+}
+
+// Streams a CSV of any column layout and returns the candles whose open time
+// falls within [startTimestamp, endTimestamp], in millisecond timestamps.
+// `includeRow` can skip rows such as unfinished candles.
+export function readMappedCsv(
+  csvFilePath: string,
+  format: ResolvedCsvFormat,
+  startTimestamp: number,
+  endTimestamp: number,
+  includeRow?: (cell: (column: CsvColumn) => string) => boolean
+): Promise<CandleData[]> {
+  return new Promise((resolve, reject) => {
+    const candles: CandleData[] = [];
+    const hasCloseTime = format.columns.closeTime !== undefined;
+    const stream = fs.createReadStream(csvFilePath);
+    const parser = parse({
+      delimiter: format.delimiter,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    });
+
+    let header: string[] | undefined;
+    let indices: Map<keyof CsvColumnMapping, number> | undefined;
+    let line = 0;
+    let failed = false;
+
+    const fail = (error: Error) => {
+      if (!failed) {
+        failed = true;
+        stream.destroy();
+        reject(error);
+      }
+    };
+
+    parser.on('readable', () => {
+      let row: string[];
+      while (!failed && (row = parser.read()) !== null) {
+        line++;
+        try {
+          if (format.hasHeader && !header) {
+            header = row;
+            continue;
+          }
+          indices ??= resolveColumnIndices(format, header, csvFilePath);
+
+          const field = (name: keyof CsvColumnMapping) => {
+            const index = indices!.get(name);
+            return index === undefined ? undefined : row[index];
+          };
+          const number = (name: keyof CsvColumnMapping) => {
+            const value = field(name);
+            return value === undefined ? 0 : parseFloat(value);
+          };
+          const cell = (column: CsvColumn) =>
+            row[typeof column === 'number' ? column : header?.indexOf(column) ?? -1] ?? '';
+          if (includeRow && !includeRow(cell)) {
+            continue;
+          }
+
+          const openTime = parseTimestamp(field('openTime') ?? '', format.timestampUnit, format.timezone);
+          if (isNaN(openTime)) {
+            throw new KlineFormatError(
+              csvFilePath,
+              `line ${line}: open time "${field('openTime')}" is neither a ${format.timestampUnit} timestamp nor a date`
+            );
+          }
+          if (openTime < startTimestamp || openTime > endTimestamp) {
+            continue;
+          }
+
+          candles.push({
+            openTime,
+            open: number('open'),
+            high: number('high'),
+            low: number('low'),
+            close: number('close'),
+            volume: number('volume'),
+            closeTime: hasCloseTime
+              ? parseTimestamp(field('closeTime') ?? '', format.timestampUnit, format.timezone)
+              : NaN,
+            quoteAssetVolume: number('quoteAssetVolume'),
+            trades: number('trades'),
+            takerBuyBaseAssetVolume: number('takerBuyBaseAssetVolume'),
+            takerBuyQuoteAssetVolume: number('takerBuyQuoteAssetVolume'),
+            ignore: 0,
+          });
+        } catch (error) {
+          fail(error as Error);
+        }
+      }
+    });
+
+    parser.on('error', (err) => {
+      console.error('Error parsing CSV:', err);
+      fail(err);
+    });
+
+    parser.on('end', () => {
+      if (failed) {
+        return;
+      }
+      if (!hasCloseTime) {
+        fillCloseTimes(candles);
+      }
+      resolve(candles);
+    });
+
+    stream.on('error', fail);
+    stream.pipe(parser);
+  });
+}
+
+// Without a close time column each candle closes 1ms before the next one
+// would open, at the smallest spacing of open times in the file
+function fillCloseTimes(candles: CandleData[]): void {
+  let spacing = Infinity;
+  for (let i = 1; i < candles.length; i++) {
+    const step = candles[i].openTime - candles[i - 1].openTime;
+    if (step > 0 && step < spacing) {
+      spacing = step;
+    }
+  }
+  for (const candle of candles) {
+    candle.closeTime = spacing === Infinity ? candle.openTime : candle.openTime + spacing - 1;
+  }
+}
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import { getMarketKey } from './config';
+import { Downloader } from './downloader';
+import { DataAvailability, TradingConfig, YearMonth } from './interfaces';
+
+// present: a monthly CSV, or daily CSVs for the current month
+// stale: daily CSVs only, although the month is over and its monthly archive
+//   should be published; fetching again replaces them
+// missing: nothing on disk
+// unlisted: outside the months the archive offers, as found by discovery
+export type MonthStatus = 'present' | 'stale' | 'missing' | 'unlisted';
+
+export function formatMonth({ year, month }: YearMonth): string {
+  return `${year}-${month.toString().padStart(2, '0')}`;
+}
+
+export function toMonthIndex({ year, month }: YearMonth): number {
+  return year * 12 + month - 1;
+}
+
+export function fromMonthIndex(index: number): YearMonth {
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function parseMonth(month: string): YearMonth {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return { year, month: monthNumber };
+}
+
+// Months of the dataFetch range as YYYY-MM; without an endDate the range
+// runs to the current month, as in DataFetcher.fetchHistoricalData
+export function listRequestedMonths(runConfig: TradingConfig): string[] {
+  const now = new Date();
+  const end = runConfig.dataFetch.endDate ?? { year: now.getFullYear(), month: now.getMonth() + 1 };
+  const months: string[] = [];
+  for (let i = toMonthIndex(runConfig.dataFetch.startDate); i <= toMonthIndex(end); i++) {
+    months.push(formatMonth(fromMonthIndex(i)));
+  }
+  return months;
+}
+
+// Collapses sorted YYYY-MM months into ranges, e.g. "2024-01..2024-03, 2024-06"
+export function summarizeMonths(months: string[]): string {
+  const ranges: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= months.length; i++) {
+    const consecutive =
+      i < months.length &&
+      months[i] === formatMonth(fromMonthIndex(toMonthIndex(parseMonth(months[i - 1])) + 1));
+    if (!consecutive) {
+      ranges.push(i - 1 > start ? `${months[start]}..${months[i - 1]}` : months[start]);
+      start = i;
+    }
+  }
+  return ranges.join(', ');
+}
+
+// Reads and rewrites the availability manifest of one symbol. The on-disk part
+// is rescanned on every refresh, so files added or removed by hand are picked up.
+export class DataAvailabilityManifest {
+  private constructor(
+    private manifestPath: string,
+    private data: DataAvailability
+  ) {}
+
+  public static refresh(symbol: string, runConfig: TradingConfig): DataAvailabilityManifest {
+    const symbolDir = path.join(__dirname, '../kline', getMarketKey(runConfig), symbol);
+    const manifestPath = path.join(symbolDir, 'availability.json');
+
+    const data: DataAvailability = fs.existsSync(manifestPath)
+      ? JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+      : { symbol, timeframes: {}, lastUpdated: '' };
+
+    data.timeframes = {};
+    if (fs.existsSync(symbolDir)) {
+      for (const timeframe of fs.readdirSync(symbolDir)) {
+        const csvDir = path.join(symbolDir, timeframe, 'csv');
+        if (fs.existsSync(csvDir)) {
+          data.timeframes[timeframe] = DataAvailabilityManifest.scanCsvDir(csvDir);
+        }
+      }
+    }
+    data.lastUpdated = new Date().toISOString();
+
+    const manifest = new DataAvailabilityManifest(manifestPath, data);
+    // Status checks of symbols that were never fetched create no directories
+    if (fs.existsSync(symbolDir)) {
+      manifest.save();
+    }
+    return manifest;
+  }
+
+  private static scanCsvDir(csvDir: string): DataAvailability['timeframes'][string] {
+    const monthly = new Set<string>();
+    const daily = new Set<string>();
+    for (const file of fs.readdirSync(csvDir)) {
+      const match = file.match(/-(\d{4}-\d{2})(-\d{2})?\.csv$/);
+      if (match) {
+        (match[2] ? daily : monthly).add(match[1]);
+      }
+    }
+
+    const months = [...monthly].sort();
+    const dailyMonths = [...daily].filter((month) => !monthly.has(month)).sort();
+    const all = [...months, ...dailyMonths].sort();
+
+    return {
+      downloaded: all.length > 0,
+      firstDownloaded: all.length > 0 ? parseMonth(all[0]) : undefined,
+      lastDownloaded: all.length > 0 ? parseMonth(all[all.length - 1]) : undefined,
+      months,
+      dailyMonths,
+    };
+  }
+
+  private save(): void {
+    Downloader.writeFileAtomic(this.manifestPath, JSON.stringify(this.data, null, 2));
+  }
+
+  public getData(): DataAvailability {
+    return this.data;
+  }
+
+  // Records the archive's listing range found by DataFetcher.discoverListing
+  public setListing(first?: YearMonth, last?: YearMonth): void {
+    this.data.firstAvailable = first;
+    this.data.lastAvailable = last;
+    this.data.lastDiscovered = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+    this.save();
+  }
+
+  // The archive's last month only bounds the listing once it trails the
+  // discovery date by more than the delay of monthly archives. Otherwise the
+  // symbol was still trading, and months published since are merely missing.
+  private isDelisted(): boolean {
+    const { lastAvailable, lastDiscovered } = this.data;
+    if (!lastAvailable || !lastDiscovered) {
+      return false;
+    }
+    const discovered = new Date(lastDiscovered);
+    const discoveredMonth = toMonthIndex({
+      year: discovered.getUTCFullYear(),
+      month: discovered.getUTCMonth() + 1,
+    });
+    return toMonthIndex(lastAvailable) < discoveredMonth - 2;
+  }
+
+  public getMonthStatuses(timeframe: string, months: string[]): Map<string, MonthStatus> {
+    const entry = this.data.timeframes[timeframe];
+    const now = new Date();
+    const currentMonth = formatMonth({ year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 });
+    const { firstAvailable } = this.data;
+    const lastAvailable = this.isDelisted() ? this.data.lastAvailable : undefined;
+
+    const statuses = new Map<string, MonthStatus>();
+    for (const month of months) {
+      if (entry?.months.includes(month)) {
+        statuses.set(month, 'present');
+      } else if (entry?.dailyMonths.includes(month)) {
+        statuses.set(month, month >= currentMonth ? 'present' : 'stale');
+      } else if (
+        (firstAvailable && month < formatMonth(firstAvailable)) ||
+        (lastAvailable && month > formatMonth(lastAvailable) && month < currentMonth)
+      ) {
+        statuses.set(month, 'unlisted');
+      } else {
+        statuses.set(month, 'missing');
+      }
+    }
+    return statuses;
+  }
+
+  // Warnings for the months of the requested range that are not fully on disk
+  public findCoverageGaps(timeframe: string, months: string[]): string[] {
+    const statuses = this.getMonthStatuses(timeframe, months);
+    const withStatus = (status: MonthStatus) => months.filter((month) => statuses.get(month) === status);
+    const label = `${this.data.symbol} ${timeframe}`;
+    const warnings: string[] = [];
+
+    const missing = withStatus('missing');
+    if (missing.length > 0) {
+      warnings.push(`${label} has no data for ${summarizeMonths(missing)} of the requested range`);
+    }
+    const stale = withStatus('stale');
+    if (stale.length > 0) {
+      warnings.push(
+        `${label} covers ${summarizeMonths(stale)} with daily files only; fetch again for the monthly archive`
+      );
+    }
+    const unlisted = withStatus('unlisted');
+    if (unlisted.length > 0) {
+      warnings.push(
+        `${label}: ${summarizeMonths(unlisted)} is outside the archive listing (${formatMonth(
+          this.data.firstAvailable!
+        )} to ${this.isDelisted() ? formatMonth(this.data.lastAvailable!) : 'now'})`
+      );
+    }
+    return warnings;
+  }
+}
@@ -3,38 +3,19 @@ import fs from 'fs';
 import path from 'path';
 import AdmZip from 'adm-zip';
 import config from './config';
-import { TradingConfig, SymbolInfo, RawSymbolInfo } from './interfaces';
+import { TradingConfig, SymbolInfo, RawSymbolInfo, DownloadSummary, YearMonth } from './interfaces';
 import crypto from 'crypto';
+import { DEFAULT_DOWNLOAD_CONFIG, Downloader, isNotFound } from './downloader';
+import { DataAvailabilityManifest, fromMonthIndex, toMonthIndex } from './data-availability';
+import { readSymbolMetadataFile, SymbolMetadataCache, toSymbolInfo } from './symbol-metadata';
 
-interface DataAvailability {
-  symbol: string;
-  firstAvailable: {
-    year: number;
-    month: number;
-  };
-  lastAvailable: {
-    year: number;
-    month: number;
-  };
-  timeframes: {
-    [key: string]: {
-      downloaded: boolean;
-      firstDownloaded?: {
-        year: number;
-        month: number;
-      };
-      lastDownloaded?: {
-        year: number;
-        month: number;
-      };
-    };
-  };
-  lastUpdated: string;
-}
+// No Binance kline archive predates this month
+const ARCHIVE_START: YearMonth = { year: 2017, month: 1 };
 
 export class DataFetcher {
-  private baseUrl = 'https://data.binance.vision';
+  private baseUrl: string;
   private apiUrl: string;
+  private downloader: Downloader;
   private timeframe: string;
   private symbolInfo: Map<string, SymbolInfo> = new Map();
 
@@ -42,22 +23,28 @@ export class DataFetcher {
     private symbol: string,
     private runConfig: TradingConfig = config
   ) {
-    this.timeframe = runConfig.singleBacktest.timeframe;
-    
+    // Only the base timeframe is downloaded when it is resampled locally
+    this.timeframe = runConfig.dataFetch.resampleFrom ?? runConfig.singleBacktest.timeframe;
+
+    const download = runConfig.download ?? DEFAULT_DOWNLOAD_CONFIG;
+    this.downloader = new Downloader(download);
+    // Archives live under data/ on binance.vision and on mirrors of it
+    const archiveRoot = `${download.baseUrl.replace(/\/+$/, '')}/data`;
+
     // Set API URL based on market type
     if (this.runConfig.market.type === 'futures') {
       if (this.runConfig.market.subType === 'um') {
         this.apiUrl = 'https://fapi.binance.com/fapi/v1';
-        this.baseUrl = 'https://data.binance.vision/data/futures/um';
+        this.baseUrl = `${archiveRoot}/futures/um`;
       } else if (this.runConfig.market.subType === 'cm') {
         this.apiUrl = 'https://dapi.binance.com/dapi/v1';
-        this.baseUrl = 'https://data.binance.vision/data/futures/cm';
+        this.baseUrl = `${archiveRoot}/futures/cm`;
       } else {
         throw new Error(`Unsupported futures subType: ${this.runConfig.market.subType}`);
       }
     } else {
       this.apiUrl = 'https://api.binance.com/api/v3';
-      this.baseUrl = 'https://data.binance.vision/data/spot';
+      this.baseUrl = `${archiveRoot}/spot`;
     }
   }
 
@@ -71,63 +58,62 @@ export class DataFetcher {
     return path.join(__dirname, `../kline/spot/${this.symbol}`);
   }
 
+  private async fetchExchangeInfo(): Promise<RawSymbolInfo[]> {
+    const response = await axios.get(`${this.apiUrl}/exchangeInfo`);
+    return response.data.symbols as RawSymbolInfo[];
+  }
+
+  // Resolves symbol metadata from, in order: the hand-written
+  // symbolMetadata.file, a fresh local exchangeInfo cache, the live API, and
+  // finally a stale cache when the API cannot be reached
   public async fetchSymbolInfo(symbol: string): Promise<SymbolInfo> {
     if (this.symbolInfo.has(symbol)) {
       return this.symbolInfo.get(symbol)!;
     }
 
-    try {
-      let response;
-      if (this.runConfig.market.type === 'futures') {
-        // For futures, use exchangeInfo without symbol parameter
-        response = await axios.get(`${this.apiUrl}/exchangeInfo`);
-        const symbolData = response.data.symbols.find((s: any) => s.symbol === symbol);
+    const metadata = this.runConfig.symbolMetadata;
+    const manual = metadata?.file ? readSymbolMetadataFile(metadata.file).get(symbol) : undefined;
+    if (manual) {
+      this.symbolInfo.set(symbol, manual);
+      return manual;
+    }
+
+    const cache = new SymbolMetadataCache(this.runConfig);
+    const cached = cache.read();
+    let info =
+      cached && (metadata?.offline || cache.isFresh(cached))
+        ? cache.find(cached, symbol)
+        : undefined;
+
+    if (!info && !metadata?.offline) {
+      try {
+        const symbols = await this.fetchExchangeInfo();
+        cache.write(symbols);
+        const symbolData = symbols.find((s) => s.symbol === symbol);
         if (!symbolData) {
-          throw new Error(`Symbol ${symbol} not found in futures exchange info`);
+          throw new Error(`Symbol ${symbol} not found in exchange info`);
         }
-        response = { data: { symbols: [symbolData] } };
-      } else {
-        // For spot
-        response = await axios.get(`${this.apiUrl}/exchangeInfo`, {
-          params: { symbol }
-        });
+        info = toSymbolInfo(symbolData);
+      } catch (error) {
+        info = cached ? cache.find(cached, symbol) : undefined;
+        if (!info) {
+          console.error(`Error fetching symbol info for ${symbol}:`, error);
+          throw error;
+        }
+        console.log(
+          `Warning: using symbol info for ${symbol} cached at ${cached!.fetchedAt} (${(error as Error).message})`
+        );
       }
+    }
 
-      const symbolData = response.data.symbols[0] as RawSymbolInfo;
-      
-      // Find price filter for precision
-      const priceFilter = symbolData.filters.find(
-        (f) => f.filterType === 'PRICE_FILTER'
+    if (!info) {
+      throw new Error(
+        `No cached symbol info for ${symbol}; run once with network access or add it to symbolMetadata.file`
       );
-      const lotSizeFilter = symbolData.filters.find(
-        (f) => f.filterType === 'LOT_SIZE'
-      );
-
-      // Calculate precision from tickSize (e.g., "0.00001000" has 8 decimals)
-      const pricePrecision = priceFilter?.tickSize
-        ? -Math.log10(parseFloat(priceFilter.tickSize))
-        : symbolData.quotePrecision;
-
-      const quantityPrecision = lotSizeFilter?.stepSize
-        ? -Math.log10(parseFloat(lotSizeFilter.stepSize))
-        : symbolData.baseAssetPrecision;
-
-      const info: SymbolInfo = {
-        symbol: symbolData.symbol,
-        baseAsset: symbolData.baseAsset,
-        quoteAsset: symbolData.quoteAsset,
-        baseAssetPrecision: symbolData.baseAssetPrecision,
-        quotePrecision: symbolData.quotePrecision,
-        pricePrecision: Math.max(0, Math.floor(pricePrecision)),
-        quantityPrecision: Math.max(0, Math.floor(quantityPrecision))
-      };
-
-      this.symbolInfo.set(symbol, info);
-      return info;
-    } catch (error) {
-      console.error(`Error fetching symbol info for ${symbol}:`, error);
-      throw error;
     }
+
+    this.symbolInfo.set(symbol, info);
+    return info;
   }
 
   private async createDirectories(): Promise<void> {
@@ -146,17 +132,263 @@ export class DataFetcher {
     }
   }
 
-  private getDownloadUrl(year: number, month: number): string {
+  // Monthly archives are named SYMBOL-TF-YYYY-MM, daily ones SYMBOL-TF-YYYY-MM-DD
+  private getArchiveName(year: number, month: number, day?: number): string {
     const monthStr = month.toString().padStart(2, '0');
-    const filename = `${this.symbol}-${this.timeframe}-${year}-${monthStr}`;
+    const period =
+      day === undefined ? `${year}-${monthStr}` : `${year}-${monthStr}-${day.toString().padStart(2, '0')}`;
+    return `${this.symbol}-${this.timeframe}-${period}`;
+  }
 
-    if (this.runConfig.market.type === 'futures') {
-      return `${this.baseUrl}/monthly/klines/${this.symbol}/${this.timeframe}/${filename}.zip`;
+  private getDownloadUrl(year: number, month: number, day?: number): string {
+    const frequency = day === undefined ? 'monthly' : 'daily';
+    const filename = this.getArchiveName(year, month, day);
+    return `${this.baseUrl}/${frequency}/klines/${this.symbol}/${this.timeframe}/${filename}.zip`;
+  }
+
+  // Binance publishes `<archive>.zip.CHECKSUM` next to each archive, holding
+  // the SHA-256 digest followed by the file name. Only a 404 leaves the
+  // archive unverified; other failures (after retries) fail the download so
+  // the period is reported as missing.
+  private async fetchExpectedChecksum(url: string): Promise<string | undefined> {
+    try {
+      const checksum = await this.downloader.get(`${url}.CHECKSUM`, 'text');
+      return checksum.trim().split(/\s+/)[0].toLowerCase();
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw new Error(`Could not fetch checksum for ${url}: ${(error as Error).message}`);
+      }
+      console.log(`Warning: no checksum published for ${url}; archive not verified`);
+      return undefined;
+    }
+  }
+
+  // Downloads an archive to zipPath and verifies it against its CHECKSUM
+  // file, downloading again up to dataValidation.checksumRetries times on
+  // mismatch. The checksum is fetched after the first download so that
+  // archives which are not published yet fail with a plain 404.
+  private async downloadArchive(url: string, zipPath: string): Promise<void> {
+    const validation = this.runConfig.dataValidation;
+    const verify = validation?.verifyChecksums ?? true;
+    const retries = validation?.checksumRetries ?? 2;
+
+    let expected: string | undefined;
+    for (let attempt = 0; ; attempt++) {
+      await this.downloader.download(url, zipPath);
+      if (attempt === 0 && verify) {
+        expected = await this.fetchExpectedChecksum(url);
+      }
+      if (!expected) {
+        return;
+      }
+
+      const actual = crypto.createHash('sha256').update(fs.readFileSync(zipPath)).digest('hex');
+      if (actual === expected) {
+        return;
+      }
+      // A corrupt archive must not be resumed from
+      fs.unlinkSync(zipPath);
+      if (attempt >= retries) {
+        throw new Error(`Checksum mismatch for ${url}: expected ${expected}, got ${actual}`);
+      }
+      console.log(`Warning: checksum mismatch for ${url} (attempt ${attempt + 1}/${retries + 1})`);
+    }
+  }
+
+  // The zip is downloaded through a .part file that an interrupted run
+  // resumes, and the extracted CSVs are written atomically, so no partial
+  // file is ever trusted
+  private async downloadAndExtract(url: string, filename: string): Promise<void> {
+    const basePath = this.getDataPath();
+    const csvDir = path.join(basePath, this.timeframe, 'csv');
+    const zipPath = path.join(basePath, this.timeframe, 'zip', `${filename}.zip`);
+
+    console.log(`Downloading ${url}`);
+    await this.downloadArchive(url, zipPath);
+
+    // Extract
+    const zip = new AdmZip(zipPath);
+    for (const entry of zip.getEntries()) {
+      if (!entry.isDirectory) {
+        Downloader.writeFileAtomic(path.join(csvDir, path.basename(entry.entryName)), entry.getData());
+      }
+    }
+
+    // Remove zip
+    fs.unlinkSync(zipPath);
+  }
+
+  // Covers a month whose monthly archive is not published yet with daily
+  // archives, up to yesterday (UTC) since the current day is never published.
+  // Returns the number of days available locally.
+  private async fetchDailyData(year: number, month: number, summary: DownloadSummary): Promise<number> {
+    const csvDir = path.join(this.getDataPath(), this.timeframe, 'csv');
+    const todayStart = new Date().setUTCHours(0, 0, 0, 0);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const unpublished: string[] = [];
+    let availableDays = 0;
+
+    const days: number[] = [];
+    for (let day = 1; day <= daysInMonth && Date.UTC(year, month - 1, day) < todayStart; day++) {
+      days.push(day);
+    }
+
+    await Promise.all(
+      days.map(async (day) => {
+        const filename = this.getArchiveName(year, month, day);
+        if (fs.existsSync(path.join(csvDir, `${filename}.csv`))) {
+          availableDays++;
+          return;
+        }
+
+        try {
+          await this.downloadAndExtract(this.getDownloadUrl(year, month, day), filename);
+          summary.downloaded.push(filename);
+          availableDays++;
+        } catch (error) {
+          if (!isNotFound(error)) {
+            throw error;
+          }
+          unpublished.push(filename);
+        }
+      })
+    );
+
+    if (unpublished.length > 0 && availableDays > 0) {
+      unpublished.sort();
+      const last = unpublished[unpublished.length - 1];
+      const range = unpublished.length > 1 ? `${unpublished[0]} to ${last}` : last;
+      console.log(`Warning: ${unpublished.length} daily archive(s) not published yet (${range})`);
+    }
+    return availableDays;
+  }
+
+  // Daily CSVs are superseded once the monthly archive of their month exists
+  private removeDailyFiles(year: number, month: number): void {
+    const csvDir = path.join(this.getDataPath(), this.timeframe, 'csv');
+    const prefix = `${this.getArchiveName(year, month)}-`;
+    for (const file of fs.readdirSync(csvDir)) {
+      if (file.startsWith(prefix) && file.endsWith('.csv')) {
+        fs.unlinkSync(path.join(csvDir, file));
+      }
+    }
+  }
+
+  // Downloads one month, falling back to daily archives when the monthly
+  // archive is not published yet. Failures are recorded rather than thrown
+  // so the remaining months (and batch combinations) still download.
+  private async fetchMonth(year: number, month: number, summary: DownloadSummary): Promise<void> {
+    const filename = this.getArchiveName(year, month);
+    const period = filename.slice(`${this.symbol}-${this.timeframe}-`.length);
+
+    const recordFailure = (error: unknown) => {
+      console.error(`Failed to download/extract ${filename}:`, (error as Error).message);
+      summary.missing.push({ period, reason: (error as Error).message });
+    };
+
+    try {
+      await this.downloadAndExtract(this.getDownloadUrl(year, month), filename);
+      summary.downloaded.push(filename);
+      this.removeDailyFiles(year, month);
+      return;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        recordFailure(error);
+        return;
+      }
+    }
+
+    console.log(`Monthly archive ${filename} is not published yet, using daily archives`);
+    try {
+      if ((await this.fetchDailyData(year, month, summary)) === 0) {
+        summary.missing.push({ period, reason: 'not published' });
+      }
+    } catch (error) {
+      recordFailure(error);
+    }
+  }
+
+  private async isMonthPublished(index: number): Promise<boolean> {
+    const { year, month } = fromMonthIndex(index);
+    const url = this.getDownloadUrl(year, month);
+    try {
+      await this.downloader.get(`${url}.CHECKSUM`, 'text');
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
     }
-    return `${this.baseUrl}/monthly/klines/${this.symbol}/${this.timeframe}/${filename}.zip`;
   }
 
-  public async fetchHistoricalData(): Promise<void> {
+  // Probes the monthly archive for the first and last published month and
+  // records them in the availability manifest. Months are assumed to be
+  // published without holes from listing until delisting, so a few CHECKSUM
+  // requests per binary search suffice.
+  public async discoverListing(): Promise<{ first: YearMonth; last: YearMonth } | undefined> {
+    const now = new Date();
+    // Last complete month
+    const latest = toMonthIndex({ year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 }) - 1;
+    const earliest = toMonthIndex(ARCHIVE_START);
+    const manifest = DataAvailabilityManifest.refresh(this.symbol, this.runConfig);
+
+    // Step back a year at a time so delisted symbols are found too
+    let known = latest;
+    while (known >= earliest && !(await this.isMonthPublished(known))) {
+      known -= 12;
+    }
+    // A listing shorter than a year can fall between two yearly probes, so
+    // the months skipped are tried one by one before giving up
+    if (known < earliest) {
+      known = await this.findPublishedMonth(latest, earliest);
+    }
+    if (known < earliest) {
+      console.log(`No monthly ${this.timeframe} archives found for ${this.symbol}`);
+      manifest.setListing(undefined, undefined);
+      return undefined;
+    }
+
+    let low = earliest;
+    let high = known;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (await this.isMonthPublished(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    const first = low;
+
+    low = known;
+    high = Math.min(known + 11, latest);
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (await this.isMonthPublished(mid)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const listing = { first: fromMonthIndex(first), last: fromMonthIndex(low) };
+    manifest.setListing(listing.first, listing.last);
+    return listing;
+  }
+
+  // Latest published month from `from` back to `to`, other than the yearly
+  // probes of discoverListing; below `to` when there is none
+  private async findPublishedMonth(from: number, to: number): Promise<number> {
+    for (let index = from; index >= to; index--) {
+      if ((from - index) % 12 !== 0 && (await this.isMonthPublished(index))) {
+        return index;
+      }
+    }
+    return to - 1;
+  }
+
+  public async fetchHistoricalData(): Promise<DownloadSummary> {
     console.log(`\nChecking data availability for ${this.symbol} - ${this.timeframe}...`);
     
     const startDate = new Date(
@@ -174,13 +406,16 @@ export class DataFetcher {
 
     await this.createDirectories();
 
-    const basePath = this.getDataPath();
-    const csvDir = path.join(basePath, this.timeframe, 'csv');
-    const zipDir = path.join(basePath, this.timeframe, 'zip');
+    const csvDir = path.join(this.getDataPath(), this.timeframe, 'csv');
+    const summary: DownloadSummary = {
+      symbol: this.symbol,
+      timeframe: this.timeframe,
+      downloaded: [],
+      missing: [],
+    };
 
-    // Check if we have all required files
-    let hasAllFiles = true;
-    const requiredFiles: string[] = [];
+    // Months without a monthly CSV; the current month never has one
+    const missingMonths: Array<{ year: number; month: number }> = [];
 
     for (
       let date = new Date(startDate);
@@ -189,41 +424,30 @@ export class DataFetcher {
     ) {
       const year = date.getFullYear();
       const month = date.getMonth() + 1;
-      const monthStr = month.toString().padStart(2, '0');
-      const filename = `${this.symbol}-${this.timeframe}-${year}-${monthStr}`;
-      
-      if (!fs.existsSync(path.join(csvDir, `${filename}.csv`))) {
-        hasAllFiles = false;
-        requiredFiles.push(`${filename}.zip`);
+
+      if (!fs.existsSync(path.join(csvDir, `${this.getArchiveName(year, month)}.csv`))) {
+        missingMonths.push({ year, month });
       }
     }
 
-    if (hasAllFiles) {
+    if (missingMonths.length === 0) {
       console.log('Using existing data - all required files are present');
-      return;
+      DataAvailabilityManifest.refresh(this.symbol, this.runConfig);
+      return summary;
     }
 
-    // Download missing files
-    for (const filename of requiredFiles) {
-      const [, , year, month] = filename.split('-');
-      const url = this.getDownloadUrl(parseInt(year), parseInt(month));
-      const zipPath = path.join(zipDir, filename);
-      
-      try {
-        console.log(`Downloading ${url}`);
-        const response = await axios.get(url, { responseType: 'arraybuffer' });
-        fs.writeFileSync(zipPath, response.data);
-
-        // Extract
-        const zip = new AdmZip(zipPath);
-        zip.extractAllTo(csvDir, true);
-        
-        // Remove zip
-        fs.unlinkSync(zipPath);
-      } catch (error) {
-        console.error(`Failed to download/extract ${filename}:`, error);
-        throw error;
+    // Months download concurrently; the shared limiter bounds the requests
+    await Promise.all(missingMonths.map(({ year, month }) => this.fetchMonth(year, month, summary)));
+    DataAvailabilityManifest.refresh(this.symbol, this.runConfig);
+
+    summary.downloaded.sort();
+    summary.missing.sort((a, b) => a.period.localeCompare(b.period));
+    if (summary.missing.length > 0) {
+      console.log(`Warning: missing data for ${this.symbol} - ${this.timeframe}:`);
+      for (const { period, reason } of summary.missing) {
+        console.log(`  ${period}: ${reason}`);
       }
     }
+    return summary;
   }
 }
@@ -0,0 +1,642 @@
+import { timeframeToMilliseconds } from './config';
+import { LowerTimeframeResolver } from './lower-timeframe-resolver';
+import { Liquidity } from './cost-model';
+import { RollingAtr } from './indicators';
+import { createVolatilityMeasure, getWarmupCandles, VolatilityMeasure } from './volatility';
+import {
+  CandleData,
+  Entry,
+  Exit,
+  ExitLevel,
+  HedgeCycle,
+  HedgeLeg,
+  AmbiguousEntry,
+  AmbiguousCandlePolicy,
+  TradeCosts,
+} from './interfaces';
+import {
+  StrategyContext,
+  StrategyRegistry,
+  LegendDetector,
+  LegendSignal,
+  EntryRule,
+  EntryLevels,
+  EntrySignal,
+  ExitRule,
+  TradeOutcome,
+} from './strategies';
+
+// Legend candle: a candle whose open-close move is at least
+// legendTriggerMultiple times the configured volatility measure of the
+// preceding lookback candles
+export class VolatilityLegendDetector implements LegendDetector {
+  private volatilityMeasure?: VolatilityMeasure;
+
+  public prepare(context: StrategyContext): number {
+    const { lookbackCandles, volatilityMeasure } = context.parameters;
+    // Volatility of the previous lookbackCandles candles, updated
+    // incrementally per candle
+    this.volatilityMeasure = createVolatilityMeasure(volatilityMeasure, lookbackCandles);
+    const warmup = getWarmupCandles(volatilityMeasure, lookbackCandles);
+    for (let i = 0; i < Math.min(warmup, context.candles.length); i++) {
+      this.volatilityMeasure.push(context.candles[i]);
+    }
+    return warmup;
+  }
+
+  public detect(index: number, context: StrategyContext): LegendSignal | null {
+    const measure = this.volatilityMeasure!;
+    const candle = context.candles[index];
+    const volatility = measure.value;
+    measure.push(candle);
+
+    // Calculate current candle's movement percentage using open-close
+    const currentDiff = (Math.abs(candle.close - candle.open) / candle.open) * 100;
+    const { legendTriggerMultiple, entryBandMultiple } = context.parameters;
+    if (currentDiff < legendTriggerMultiple * volatility) {
+      return null;
+    }
+
+    return {
+      dynamicThreshold: volatility * entryBandMultiple,
+      volatility,
+      volatilityMeasure: measure.name,
+    };
+  }
+}
+
+// Enters in the direction of the first threshold crossed within
+// maxLookForwardCandles after the legend candle
+export class ThresholdBreakoutEntryRule implements EntryRule {
+  private lowerTimeframeResolver?: LowerTimeframeResolver;
+
+  // Thresholds sit dynamicThreshold percent above and below the legend close
+  public getLevels(
+    legendIndex: number,
+    signal: LegendSignal,
+    context: StrategyContext
+  ): EntryLevels {
+    const close = context.candles[legendIndex].close;
+    const thresholdValue = close * (signal.dynamicThreshold / 100);
+    return {
+      upwardThreshold: close + thresholdValue,
+      downwardThreshold: close - thresholdValue,
+      dynamicThreshold: signal.dynamicThreshold,
+    };
+  }
+
+  public async findEntry(
+    candleIndex: number,
+    levels: EntryLevels,
+    context: StrategyContext
+  ): Promise<EntrySignal> {
+    const { upwardThreshold, downwardThreshold } = levels;
+    // Look for entry opportunities in subsequent candles
+    const maxLookForward = context.runConfig.trade.maxLookForwardCandles;
+    let candlesChecked = 0;
+    const result: EntrySignal = { entryIndex: -1 };
+
+    for (
+      let i = candleIndex + 1;
+      i < Math.min(candleIndex + maxLookForward + 1, context.candles.length);
+      i++
+    ) {
+      candlesChecked++;
+      const futureCandle = context.candles[i];
+      const high = futureCandle.high;
+      const low = futureCandle.low;
+
+      let side: Entry['side'] | null = null;
+      if (high >= upwardThreshold && low <= downwardThreshold) {
+        // Both thresholds lie inside this candle's range, so its OHLC alone
+        // cannot tell which one was crossed first
+        const resolution = await this.resolveAmbiguousCandle(
+          futureCandle,
+          upwardThreshold,
+          downwardThreshold,
+          context
+        );
+        result.ambiguous = {
+          candleTime: context.formatTime(futureCandle.openTime),
+          ...resolution,
+        };
+        if (!resolution.side) {
+          break;
+        }
+        side = resolution.side;
+      } else if (high >= upwardThreshold) {
+        side = 'LONG';
+      } else if (low <= downwardThreshold) {
+        side = 'SHORT';
+      }
+
+      if (side === 'LONG') {
+        result.entry = {
+          reason: 'UpwardThresholdMet',
+          side: 'LONG',
+          price: upwardThreshold,
+          formatted_price: `${context.formatPrice(upwardThreshold)} USDT`,
+          time: context.formatTime(futureCandle.openTime),
+          candlesUntilThreshold: candlesChecked,
+          PositionEntryCandleDetails: context.formatCandleDetails(futureCandle),
+        };
+        result.entryIndex = i;
+        break;
+      } else if (side === 'SHORT') {
+        result.entry = {
+          reason: 'DownwardThresholdMet',
+          side: 'SHORT',
+          price: downwardThreshold,
+          formatted_price: `${context.formatPrice(downwardThreshold)} USDT`,
+          time: context.formatTime(futureCandle.openTime),
+          candlesUntilThreshold: candlesChecked,
+          PositionEntryCandleDetails: context.formatCandleDetails(futureCandle),
+        };
+        result.entryIndex = i;
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  // Decides which threshold an ambiguous candle crossed first, replaying
+  // lower-timeframe candles from disk when they exist and falling back to the
+  // configured policy otherwise
+  private async resolveAmbiguousCandle(
+    candle: CandleData,
+    upwardThreshold: number,
+    downwardThreshold: number,
+    context: StrategyContext
+  ): Promise<Omit<AmbiguousEntry, 'candleTime'>> {
+    const ambiguousConfig = context.runConfig.trade.ambiguousCandles ?? {
+      policy: 'pessimistic',
+      resolutionTimeframe: '1m',
+    };
+    const resolutionTimeframe = ambiguousConfig.resolutionTimeframe;
+    const timeframe = context.runConfig.singleBacktest.timeframe;
+
+    if (
+      resolutionTimeframe &&
+      timeframeToMilliseconds(resolutionTimeframe) < timeframeToMilliseconds(timeframe)
+    ) {
+      if (!this.lowerTimeframeResolver) {
+        this.lowerTimeframeResolver = new LowerTimeframeResolver(
+          context.symbol,
+          resolutionTimeframe,
+          context.runConfig
+        );
+      }
+
+      const subCandles = await this.lowerTimeframeResolver.getSubCandles(
+        candle.openTime,
+        candle.closeTime
+      );
+      for (const subCandle of subCandles) {
+        const upHit = subCandle.high >= upwardThreshold;
+        const downHit = subCandle.low <= downwardThreshold;
+        if (upHit && downHit) {
+          // Still ambiguous at the finer resolution
+          break;
+        }
+        if (upHit || downHit) {
+          return {
+            side: upHit ? 'LONG' : 'SHORT',
+            resolvedBy: 'lowerTimeframe',
+            resolutionTimeframe,
+          };
+        }
+      }
+    }
+
+    return {
+      side: this.applyAmbiguityPolicy(
+        ambiguousConfig.policy,
+        candle,
+        upwardThreshold,
+        downwardThreshold
+      ),
+      resolvedBy: ambiguousConfig.policy,
+    };
+  }
+
+  private applyAmbiguityPolicy(
+    policy: AmbiguousCandlePolicy,
+    candle: CandleData,
+    upwardThreshold: number,
+    downwardThreshold: number
+  ): Entry['side'] | null {
+    // Mark-to-market of each possible entry at the candle's close
+    const longPnl = candle.close - upwardThreshold;
+    const shortPnl = downwardThreshold - candle.close;
+
+    switch (policy) {
+      case 'pessimistic':
+        return longPnl <= shortPnl ? 'LONG' : 'SHORT';
+      case 'optimistic':
+        return longPnl >= shortPnl ? 'LONG' : 'SHORT';
+      case 'openProximity':
+        // Assume price visited the extreme nearest to the open first
+        return candle.high - candle.open <= candle.open - candle.low ? 'LONG' : 'SHORT';
+      case 'skip':
+        return null;
+      default:
+        throw new Error(`Unsupported ambiguous candle policy: ${policy}`);
+    }
+  }
+}
+
+// Closes the position on take-profit, stop-loss or the holding limit from
+// the trade.exit config
+export class TargetStopExitRule implements ExitRule {
+  private atr?: { candles: CandleData[]; period: number; indicator: RollingAtr; nextIndex: number };
+
+  // Checks the entry candle from the entry price onward, then walks the
+  // following candles until take-profit, stop-loss or the holding limit
+  // closes the position. When a single candle touches both levels the
+  // stop-loss is assumed to have been hit first.
+  public simulate(
+    entryIndex: number,
+    entry: Entry,
+    levels: EntryLevels,
+    context: StrategyContext
+  ): TradeOutcome | undefined {
+    const exitConfig = context.runConfig.trade.exit;
+    if (!exitConfig) {
+      return undefined;
+    }
+
+    const isLong = entry.side === 'LONG';
+    const direction = isLong ? 1 : -1;
+    const takeProfit = exitConfig.takeProfit
+      ? entry.price + direction * this.getExitDistance(exitConfig.takeProfit, entryIndex, entry.price, levels.dynamicThreshold, context)
+      : undefined;
+    const stopLoss = exitConfig.stopLoss
+      ? entry.price - direction * this.getExitDistance(exitConfig.stopLoss, entryIndex, entry.price, levels.dynamicThreshold, context)
+      : undefined;
+    const maxHolding = exitConfig.maxHoldingCandles ?? Infinity;
+
+    // Worst and best unrealised move while the position was open, in percent
+    let maxAdverseExcursion = 0;
+    let maxFavorableExcursion = 0;
+    const trackExcursion = (price: number) => {
+      const move = ((price - entry.price) / entry.price) * 100 * direction;
+      maxFavorableExcursion = Math.max(maxFavorableExcursion, move);
+      maxAdverseExcursion = Math.max(maxAdverseExcursion, -move);
+    };
+
+    const buildExit = (
+      reason: Exit['reason'],
+      price: number,
+      index: number
+    ): TradeOutcome => {
+      const exitCandle = context.candles[index];
+      trackExcursion(price);
+      const grossPnlPercent = ((price - entry.price) / entry.price) * 100 * direction;
+      const costs = this.calculateTradeCosts(
+        entry,
+        entryIndex,
+        price,
+        index,
+        reason === 'TakeProfitHit' ? 'maker' : 'taker',
+        context
+      );
+      const exit: Exit = {
+        reason,
+        price,
+        formatted_price: `${context.formatPrice(price)} USDT`,
+        time: context.formatTime(exitCandle.openTime),
+        candlesHeld: index - entryIndex,
+        grossPnlPercent,
+        pnlPercent: grossPnlPercent - costs.total,
+        costs,
+        maxAdverseExcursion,
+        maxFavorableExcursion,
+        PositionExitCandleDetails: context.formatCandleDetails(exitCandle),
+      };
+      return { exit, exitIndex: index };
+    };
+
+    const entryCandle = context.candles[entryIndex];
+    const entryCandleExit = this.getEntryCandleExit(
+      entryCandle,
+      isLong,
+      takeProfit,
+      stopLoss,
+      context.runConfig.trade.ambiguousCandles?.policy ?? 'pessimistic'
+    );
+    if (entryCandleExit === 'StopLossHit') {
+      return buildExit('StopLossHit', stopLoss!, entryIndex);
+    }
+    if (entryCandleExit === 'TakeProfitHit') {
+      return buildExit('TakeProfitHit', takeProfit!, entryIndex);
+    }
+    if (entryIndex + 1 >= context.candles.length) {
+      return undefined;
+    }
+    // The favourable extreme follows the threshold crossing, while the adverse
+    // one may have come before the entry
+    trackExcursion(isLong ? entryCandle.high : entryCandle.low);
+
+    for (let i = entryIndex + 1; i < context.candles.length; i++) {
+      const candle = context.candles[i];
+      const stopHit =
+        stopLoss !== undefined &&
+        (isLong ? candle.low <= stopLoss : candle.high >= stopLoss);
+      const targetHit =
+        takeProfit !== undefined &&
+        (isLong ? candle.high >= takeProfit : candle.low <= takeProfit);
+
+      if (stopHit) {
+        return buildExit('StopLossHit', stopLoss!, i);
+      }
+      if (targetHit) {
+        return buildExit('TakeProfitHit', takeProfit!, i);
+      }
+      if (i - entryIndex >= maxHolding) {
+        return buildExit('MaxHoldingPeriod', candle.close, i);
+      }
+      trackExcursion(candle.high);
+      trackExcursion(candle.low);
+    }
+
+    const lastIndex = context.candles.length - 1;
+    return buildExit('EndOfData', context.candles[lastIndex].close, lastIndex);
+  }
+
+  // Exit within the entry candle after the entry. Price reaches the
+  // take-profit beyond the entry threshold only after crossing it, so a target
+  // inside the candle is hit. Whether the opposite extreme, and with it the
+  // stop-loss, came before or after the entry is unknown and left to the
+  // ambiguous-candle policy: pessimistic assumes after (and before any
+  // target), openProximity assumes the extreme nearest the open came first,
+  // and optimistic and skip only count the target.
+  private getEntryCandleExit(
+    candle: CandleData,
+    isLong: boolean,
+    takeProfit: number | undefined,
+    stopLoss: number | undefined,
+    policy: AmbiguousCandlePolicy
+  ): 'TakeProfitHit' | 'StopLossHit' | undefined {
+    const targetHit =
+      takeProfit !== undefined && (isLong ? candle.high >= takeProfit : candle.low <= takeProfit);
+    const stopTouched =
+      stopLoss !== undefined && (isLong ? candle.low <= stopLoss : candle.high >= stopLoss);
+
+    let stopAfterEntry: boolean;
+    switch (policy) {
+      case 'pessimistic':
+        stopAfterEntry = true;
+        break;
+      case 'openProximity': {
+        // The entry side's extreme came first when it is nearer the open
+        const highFirst = candle.high - candle.open <= candle.open - candle.low;
+        stopAfterEntry = isLong ? highFirst : !highFirst;
+        break;
+      }
+      case 'optimistic':
+      case 'skip':
+        stopAfterEntry = false;
+        break;
+      default:
+        throw new Error(`Unsupported ambiguous candle policy: ${policy}`);
+    }
+
+    if (stopTouched && stopAfterEntry && (policy === 'pessimistic' || !targetHit)) {
+      return 'StopLossHit';
+    }
+    return targetHit ? 'TakeProfitHit' : undefined;
+  }
+
+  // Fees, slippage and funding of a single round trip of one unit, as
+  // percentages of the entry notional
+  private calculateTradeCosts(
+    entry: Entry,
+    entryIndex: number,
+    exitPrice: number,
+    exitIndex: number,
+    exitLiquidity: Liquidity,
+    context: StrategyContext
+  ): TradeCosts {
+    const entryFill = context.costModel.getFillCost(context.candles, entryIndex, entry.price, 1, 'taker');
+    const exitFill = context.costModel.getFillCost(context.candles, exitIndex, exitPrice, 1, exitLiquidity);
+    const funding = context.costModel.getFundingCost(
+      entry.side,
+      entry.price,
+      context.candles[entryIndex].openTime,
+      context.candles[exitIndex].openTime
+    );
+    const toPercent = (amount: number) => (amount / entry.price) * 100;
+
+    const costs = {
+      entryFee: toPercent(entryFill.fee),
+      exitFee: toPercent(exitFill.fee),
+      slippage: toPercent(entryFill.slippage + exitFill.slippage),
+      funding: toPercent(funding),
+    };
+    return {
+      ...costs,
+      total: costs.entryFee + costs.exitFee + costs.slippage + costs.funding,
+    };
+  }
+
+  private getExitDistance(
+    level: ExitLevel,
+    entryIndex: number,
+    entryPrice: number,
+    dynamicThreshold: number,
+    context: StrategyContext
+  ): number {
+    switch (level.type) {
+      case 'percent':
+        return entryPrice * (level.value / 100);
+      case 'thresholdMultiple':
+        return entryPrice * ((dynamicThreshold * level.value) / 100);
+      case 'atr':
+        return (
+          this.calculateAtr(entryIndex, context.runConfig.trade.exit?.atrPeriod ?? 14, context) *
+          level.value
+        );
+      default:
+        throw new Error(`Unsupported exit level type: ${(level as ExitLevel).type}`);
+    }
+  }
+
+  // Average true range of the `period` candles preceding `index`. Entries
+  // come in candle order, so the rolling ATR only moves forward and starts
+  // over for other candles or an earlier index.
+  private calculateAtr(index: number, period: number, context: StrategyContext): number {
+    let atr = this.atr;
+    if (!atr || atr.candles !== context.candles || atr.period !== period || atr.nextIndex > index) {
+      atr = this.atr = { candles: context.candles, period, indicator: new RollingAtr(period), nextIndex: 0 };
+    }
+    for (; atr.nextIndex < index; atr.nextIndex++) {
+      atr.indicator.push(context.candles[atr.nextIndex]);
+    }
+    return atr.indicator.value;
+  }
+}
+
+export class ZoneRecoveryExitRule implements ExitRule {
+  // Zone-recovery cycle: each reversal through the opposite threshold opens a
+  // larger leg on the other side until the combined position reaches the net
+  // profit target. At most one event (new leg or close) is booked per candle,
+  // with a new leg taking precedence over the target.
+  public simulate(
+    entryIndex: number,
+    entry: Entry,
+    levels: EntryLevels,
+    context: StrategyContext
+  ): TradeOutcome | undefined {
+    const { upwardThreshold, downwardThreshold } = levels;
+    const hedging = context.runConfig.trade.hedging;
+    if (!hedging || entryIndex + 1 >= context.candles.length) {
+      return undefined;
+    }
+
+    const maxHolding = context.runConfig.trade.exit?.maxHoldingCandles ?? Infinity;
+    const initialNotional = entry.price;
+    const targetPnl = initialNotional * (hedging.netProfitTarget / 100);
+
+    const legs: HedgeLeg[] = [
+      {
+        leg: 1,
+        side: entry.side,
+        size: 1,
+        price: entry.price,
+        formatted_price: entry.formatted_price,
+        time: entry.time,
+      },
+    ];
+    const exposure = [{ time: entry.time, netExposure: entry.side === 'LONG' ? 1 : -1 }];
+    // Candle index at which each leg was opened, for funding and slippage
+    const legIndices = [entryIndex];
+
+    const signedSize = (leg: HedgeLeg) => (leg.side === 'LONG' ? leg.size : -leg.size);
+    const netExposure = () => legs.reduce((sum, leg) => sum + signedSize(leg), 0);
+    const netPnlAt = (price: number) =>
+      legs.reduce((sum, leg) => sum + signedSize(leg) * (price - leg.price), 0);
+
+    // Worst and best combined unrealised PnL of the cycle, in quote
+    let maxAdverse = 0;
+    let maxFavorable = 0;
+    const trackExcursion = (price: number) => {
+      const pnl = netPnlAt(price);
+      maxFavorable = Math.max(maxFavorable, pnl);
+      maxAdverse = Math.max(maxAdverse, -pnl);
+    };
+
+    const close = (
+      reason: HedgeCycle['closeReason'],
+      price: number,
+      index: number
+    ): TradeOutcome => {
+      const time = context.formatTime(context.candles[index].openTime);
+      const grossPnl = netPnlAt(price);
+      trackExcursion(price);
+      const closeLiquidity: Liquidity = reason === 'NetProfitTarget' ? 'maker' : 'taker';
+      const costAmounts = { entryFee: 0, exitFee: 0, slippage: 0, funding: 0 };
+
+      legs.forEach((leg, legNo) => {
+        const openFill = context.costModel.getFillCost(context.candles, legIndices[legNo], leg.price, leg.size, 'taker');
+        const closeFill = context.costModel.getFillCost(context.candles, index, price, leg.size, closeLiquidity);
+        costAmounts.entryFee += openFill.fee;
+        costAmounts.exitFee += closeFill.fee;
+        costAmounts.slippage += openFill.slippage + closeFill.slippage;
+        costAmounts.funding += context.costModel.getFundingCost(
+          leg.side,
+          leg.price * leg.size,
+          context.candles[legIndices[legNo]].openTime,
+          context.candles[index].openTime
+        );
+      });
+
+      const totalCost =
+        costAmounts.entryFee + costAmounts.exitFee + costAmounts.slippage + costAmounts.funding;
+      const toPercent = (amount: number) => (amount / initialNotional) * 100;
+      const netPnl = grossPnl - totalCost;
+      exposure.push({ time, netExposure: 0 });
+      const hedge: HedgeCycle = {
+        legs,
+        exposure,
+        closeReason: reason,
+        closePrice: price,
+        formatted_close_price: `${context.formatPrice(price)} USDT`,
+        closeTime: time,
+        candlesHeld: index - entryIndex,
+        grossPnlPercent: toPercent(grossPnl),
+        netPnl,
+        netPnlPercent: toPercent(netPnl),
+        costs: {
+          entryFee: toPercent(costAmounts.entryFee),
+          exitFee: toPercent(costAmounts.exitFee),
+          slippage: toPercent(costAmounts.slippage),
+          funding: toPercent(costAmounts.funding),
+          total: toPercent(totalCost),
+        },
+        maxAdverseExcursion: toPercent(maxAdverse),
+        maxFavorableExcursion: toPercent(maxFavorable),
+      };
+      return { hedge, exitIndex: index };
+    };
+
+    for (let i = entryIndex + 1; i < context.candles.length; i++) {
+      const candle = context.candles[i];
+      const lastSide = legs[legs.length - 1].side;
+      const reversed =
+        lastSide === 'LONG'
+          ? candle.low <= downwardThreshold
+          : candle.high >= upwardThreshold;
+
+      if (reversed) {
+        const price = lastSide === 'LONG' ? downwardThreshold : upwardThreshold;
+        trackExcursion(price);
+        if (legs.length >= hedging.maxLegs) {
+          return close('MaxLegsReached', price, i);
+        }
+
+        const time = context.formatTime(candle.openTime);
+        legs.push({
+          leg: legs.length + 1,
+          side: lastSide === 'LONG' ? 'SHORT' : 'LONG',
+          size: Math.pow(hedging.lotMultiplier, legs.length),
+          price,
+          formatted_price: `${context.formatPrice(price)} USDT`,
+          time,
+        });
+        legIndices.push(i);
+        exposure.push({ time, netExposure: netExposure() });
+      } else {
+        // Net PnL is linear in price, so solve for the exact price at which
+        // the combined position reaches the target
+        const net = netExposure();
+        if (net !== 0) {
+          const costBasis = legs.reduce((sum, leg) => sum + signedSize(leg) * leg.price, 0);
+          const targetPrice = (targetPnl + costBasis) / net;
+          if (net > 0 && candle.high >= targetPrice) {
+            return close('NetProfitTarget', Math.max(targetPrice, candle.open), i);
+          }
+          if (net < 0 && candle.low <= targetPrice) {
+            return close('NetProfitTarget', Math.min(targetPrice, candle.open), i);
+          }
+        }
+        trackExcursion(candle.high);
+        trackExcursion(candle.low);
+      }
+
+      if (i - entryIndex >= maxHolding) {
+        return close('MaxHoldingPeriod', candle.close, i);
+      }
+    }
+
+    const lastIndex = context.candles.length - 1;
+    return close('EndOfData', context.candles[lastIndex].close, lastIndex);
+  }
+}
+
+export function registerDefaultStrategies(registry: StrategyRegistry): void {
+  registry.registerLegendDetector('volatilityBreakout', () => new VolatilityLegendDetector());
+  registry.registerEntryRule('thresholdBreakout', () => new ThresholdBreakoutEntryRule());
+  registry.registerExitRule('targetStop', () => new TargetStopExitRule());
+  registry.registerExitRule('zoneRecovery', () => new ZoneRecoveryExitRule());
+}
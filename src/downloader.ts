@@ -0,0 +1,177 @@
+import axios from 'axios';
+import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DownloadConfig } from './interfaces';
+
+export const DEFAULT_DOWNLOAD_CONFIG: DownloadConfig = {
+  baseUrl: 'https://data.binance.vision',
+  retries: 3,
+  backoffMs: 1000,
+  maxBackoffMs: 30000,
+  concurrency: 4,
+};
+
+export function isNotFound(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+// A response body that broke off part-way; what arrived is kept for resuming
+class InterruptedDownloadError extends Error {
+  constructor(url: string, cause: Error) {
+    super(`Download of ${url} interrupted: ${cause.message}`);
+    this.name = 'InterruptedDownloadError';
+  }
+}
+
+// Network errors, rate limits and server errors are worth another attempt;
+// anything else (e.g. a 404 for an unpublished archive) is final
+function isRetryable(error: unknown): boolean {
+  if (error instanceof InterruptedDownloadError) {
+    return true;
+  }
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// Runs at most `limit` tasks at a time, starting queued tasks in order
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over, so active already counts this one
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+// Shared by every Downloader in the process, so a parallel batch still makes
+// at most download.concurrency requests at once
+const limiters: Map<number, ConcurrencyLimiter> = new Map();
+
+function getLimiter(concurrency: number): ConcurrencyLimiter {
+  let limiter = limiters.get(concurrency);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(concurrency);
+    limiters.set(concurrency, limiter);
+  }
+  return limiter;
+}
+
+// HTTP GET with bounded concurrency and retries with exponential backoff
+export class Downloader {
+  private limiter: ConcurrencyLimiter;
+
+  constructor(private settings: DownloadConfig = DEFAULT_DOWNLOAD_CONFIG) {
+    this.limiter = getLimiter(Math.max(1, settings.concurrency));
+  }
+
+  public get(url: string, responseType: 'arraybuffer'): Promise<Buffer>;
+  public get(url: string, responseType: 'text'): Promise<string>;
+  public async get(url: string, responseType: 'arraybuffer' | 'text'): Promise<Buffer | string> {
+    const response = await this.withRetries(url, () =>
+      this.limiter.run(() => axios.get(url, { responseType }))
+    );
+    return responseType === 'arraybuffer' ? Buffer.from(response.data) : String(response.data);
+  }
+
+  // Streams url into filePath. The body is written to `${filePath}.part`
+  // first; a retry or a later run that finds the part file asks only for the
+  // rest with an HTTP Range request, and the file is renamed into place once
+  // complete. Servers that ignore the range send the whole file again.
+  public async download(url: string, filePath: string): Promise<void> {
+    const partPath = `${filePath}.part`;
+    await this.withRetries(url, () => this.limiter.run(() => this.downloadPart(url, partPath)));
+    fs.renameSync(partPath, filePath);
+  }
+
+  private async downloadPart(url: string, partPath: string): Promise<void> {
+    const offset = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+    let response;
+    try {
+      response = await axios.get<Readable>(url, {
+        responseType: 'stream',
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+        validateStatus: (status) => (status >= 200 && status < 300) || (offset > 0 && status === 416),
+      });
+    } catch (error) {
+      // Error bodies are streams too and would hold the connection open
+      if (axios.isAxiosError(error)) {
+        (error.response?.data as Readable | undefined)?.destroy();
+      }
+      throw error;
+    }
+
+    if (response.status === 416) {
+      response.data.destroy();
+      // The part file already holds the whole body when its size matches the
+      // total in "Content-Range: bytes */TOTAL"; otherwise start over
+      const total = Number(String(response.headers['content-range'] ?? '').split('/')[1]);
+      if (total === offset) {
+        return;
+      }
+      fs.unlinkSync(partPath);
+      return this.downloadPart(url, partPath);
+    }
+
+    const flags = response.status === 206 ? 'a' : 'w';
+    try {
+      await pipeline(response.data, fs.createWriteStream(partPath, { flags }));
+    } catch (error) {
+      throw new InterruptedDownloadError(url, error as Error);
+    }
+  }
+
+  private async withRetries<T>(url: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= this.settings.retries || !isRetryable(error)) {
+          throw error;
+        }
+        const delay = this.getBackoffDelay(attempt);
+        console.log(
+          `Retrying ${url} in ${Math.round(delay)}ms (attempt ${attempt + 2}/${this.settings.retries + 1}): ${
+            (error as Error).message
+          }`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Doubles per attempt up to maxBackoffMs, then picks a random delay in the
+  // upper half so parallel downloads do not retry in lockstep
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(this.settings.maxBackoffMs, this.settings.backoffMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  // Writes to a temporary file and renames it into place, so an interrupted
+  // run never leaves a half-written file under the final name
+  public static writeFileAtomic(filePath: string, data: Buffer | string): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  }
+}
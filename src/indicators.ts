@@ -0,0 +1,133 @@
+import { CandleData } from './interfaces';
+
+// Fixed-size window over the most recent values. Sums are kept with
+// Neumaier compensation so that sliding over millions of candles does not
+// drift away from a freshly computed average.
+export class RollingWindow {
+  private buffer: Float64Array;
+  private start = 0;
+  private count = 0;
+  private sum = 0;
+  private sumCompensation = 0;
+  private sumSquares = 0;
+  private sumSquaresCompensation = 0;
+
+  constructor(private size: number) {
+    if (size <= 0) {
+      throw new Error(`Rolling window size must be positive, got ${size}`);
+    }
+    this.buffer = new Float64Array(size);
+  }
+
+  private static addCompensated(
+    sum: number,
+    compensation: number,
+    value: number
+  ): [number, number] {
+    const total = sum + value;
+    if (Math.abs(sum) >= Math.abs(value)) {
+      compensation += sum - total + value;
+    } else {
+      compensation += value - total + sum;
+    }
+    return [total, compensation];
+  }
+
+  private accumulate(value: number, sign: 1 | -1): void {
+    [this.sum, this.sumCompensation] = RollingWindow.addCompensated(
+      this.sum,
+      this.sumCompensation,
+      sign * value
+    );
+    [this.sumSquares, this.sumSquaresCompensation] = RollingWindow.addCompensated(
+      this.sumSquares,
+      this.sumSquaresCompensation,
+      sign * value * value
+    );
+  }
+
+  // Adds a value, evicting and returning the oldest one once the window is full
+  public push(value: number): number | undefined {
+    let evicted: number | undefined;
+    if (this.count === this.size) {
+      evicted = this.buffer[this.start];
+      this.accumulate(evicted, -1);
+      this.buffer[this.start] = value;
+      this.start = (this.start + 1) % this.size;
+    } else {
+      this.buffer[(this.start + this.count) % this.size] = value;
+      this.count++;
+    }
+    this.accumulate(value, 1);
+    return evicted;
+  }
+
+  public get length(): number {
+    return this.count;
+  }
+
+  public get isFull(): boolean {
+    return this.count === this.size;
+  }
+
+  public get total(): number {
+    return this.sum + this.sumCompensation;
+  }
+
+  public get mean(): number {
+    return this.count > 0 ? this.total / this.count : 0;
+  }
+
+  // Sample variance of the values in the window
+  public get variance(): number {
+    if (this.count < 2) return 0;
+    const sumSquares = this.sumSquares + this.sumSquaresCompensation;
+    const variance = (sumSquares - (this.total * this.total) / this.count) / (this.count - 1);
+    return Math.max(variance, 0);
+  }
+
+  public get stdDev(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  // Values from oldest to newest
+  public values(): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < this.count; i++) {
+      values.push(this.buffer[(this.start + i) % this.size]);
+    }
+    return values;
+  }
+}
+
+// Average true range over the last `period` candles. The first candle pushed
+// only provides the previous close, since its true range is unknown.
+export class RollingAtr {
+  private window: RollingWindow;
+  private previousClose?: number;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public push(candle: CandleData): void {
+    if (this.previousClose !== undefined) {
+      this.window.push(
+        Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - this.previousClose),
+          Math.abs(candle.low - this.previousClose)
+        )
+      );
+    }
+    this.previousClose = candle.close;
+  }
+
+  public get value(): number {
+    return this.window.mean;
+  }
+
+  public get isReady(): boolean {
+    return this.window.isFull;
+  }
+}
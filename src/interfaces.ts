@@ -24,9 +24,26 @@ export interface LegendCandle {
   upwardThreshold: string;
   downwardThreshold: string;
   LegendCandleDifference: string;
+  volatilityMeasure: string;
+  volatilityValue: string;
   LegendCandleDetails: CandleDetails;
 }
 
+// How the lookback volatility behind the dynamic threshold is measured:
+// - bodySma: mean of abs(close - open) / open (original behaviour)
+// - bodyEma: exponential average of the same body percentage
+// - atrPercent: average true range as % of the previous close
+// - highLowRange: mean of (high - low) / open
+// - returnStdDev: standard deviation of close-to-close returns
+// - bodyMedian: median body percentage, robust to outliers
+export type VolatilityMeasureName =
+  | 'bodySma'
+  | 'bodyEma'
+  | 'atrPercent'
+  | 'highLowRange'
+  | 'returnStdDev'
+  | 'bodyMedian';
+
 // Entry information
 export interface Entry {
   reason: 'UpwardThresholdMet' | 'DownwardThresholdMet';
@@ -38,18 +55,98 @@ export interface Entry {
   PositionEntryCandleDetails: CandleDetails;
 }
 
+// Trading costs of a trade, as percentages of the entry notional
+export interface TradeCosts {
+  entryFee: number;
+  exitFee: number;
+  slippage: number;
+  funding: number;
+  total: number;
+}
+
+// Exit information. pnlPercent is net of costs, grossPnlPercent before them.
+export interface Exit {
+  reason: 'TakeProfitHit' | 'StopLossHit' | 'MaxHoldingPeriod' | 'EndOfData';
+  price: number;
+  formatted_price: string;
+  time: string;
+  candlesHeld: number;
+  grossPnlPercent: number;
+  pnlPercent: number;
+  costs: TradeCosts;
+  maxAdverseExcursion: number;
+  maxFavorableExcursion: number;
+  PositionExitCandleDetails: CandleDetails;
+}
+
+// A single position opened during a hedging (zone-recovery) cycle
+export interface HedgeLeg {
+  leg: number;
+  side: 'LONG' | 'SHORT';
+  size: number;
+  price: number;
+  formatted_price: string;
+  time: string;
+}
+
+// Net exposure (in lots, positive = long) after each change to the cycle
+export interface ExposurePoint {
+  time: string;
+  netExposure: number;
+}
+
+// Outcome of a hedging cycle started by an entry
+export interface HedgeCycle {
+  legs: HedgeLeg[];
+  exposure: ExposurePoint[];
+  closeReason: 'NetProfitTarget' | 'MaxLegsReached' | 'MaxHoldingPeriod' | 'EndOfData';
+  closePrice: number;
+  formatted_close_price: string;
+  closeTime: string;
+  candlesHeld: number;
+  grossPnlPercent: number;
+  netPnl: number;
+  netPnlPercent: number;
+  costs: TradeCosts;
+  maxAdverseExcursion: number;
+  maxFavorableExcursion: number;
+}
+
+// How a candle touching both thresholds was resolved
+export interface AmbiguousEntry {
+  candleTime: string;
+  side: 'LONG' | 'SHORT' | null;
+  resolvedBy: 'lowerTimeframe' | AmbiguousCandlePolicy;
+  resolutionTimeframe?: string;
+}
+
+// Account-level position taken for an entry. Rejected orders carry a reason
+// and leave the balance untouched.
+export interface PositionInfo {
+  quantity: number;
+  notional: number;
+  // Quantity and notional of each hedge leg after the entry
+  hedgeLegs?: Array<{ quantity: number; notional: number }>;
+  pnl: number;
+  balanceAfter: number;
+  rejectedReason?: string;
+}
+
+export interface EquityPoint {
+  time: string;
+  balance: number;
+}
+
 // Final result format for each threshold check
 export interface ThresholdResult {
   Legend_Candle_no: number;
   timestamp: string;
-  LegendCandle: {
-    currentDynamicThreshold: string;
-    upwardThreshold: string;
-    downwardThreshold: string;
-    LegendCandleDifference: string;
-    LegendCandleDetails: CandleDetails;
-  };
+  LegendCandle: LegendCandle;
   entry?: Entry;
+  exit?: Exit;
+  hedge?: HedgeCycle;
+  ambiguous?: AmbiguousEntry;
+  position?: PositionInfo;
   success: boolean;
 }
 
@@ -69,6 +166,8 @@ export interface RawSymbolInfo {
     minQty?: string;
     maxQty?: string;
     stepSize?: string;
+    minNotional?: string;
+    notional?: string;
   }>;
 }
 
@@ -80,6 +179,9 @@ export interface SymbolInfo {
   quotePrecision: number;
   pricePrecision: number;
   quantityPrecision: number;
+  stepSize?: number;
+  minQty?: number;
+  minNotional?: number;
 }
 
 export interface BacktestResult {
@@ -87,15 +189,321 @@ export interface BacktestResult {
   timeframe: string;
   symbolInfo: SymbolInfo;
   config: TradingConfig;
+  parameters: EffectiveStrategyParameters;
+  warnings: string[];
+  dataIntegrity?: CandleIntegrityReport;
   results: NullableThresholdResult[];
-  stats: {
-    totalCandles: number;
-    legendCandles: number;
-    successRate: number;
-    successfulTrades: number;
+  equityCurve?: EquityPoint[];
+  stats: BacktestStats;
+  metrics?: PerformanceMetrics;
+  monteCarlo?: MonteCarloResult;
+}
+
+export interface SideMetrics {
+  trades: number;
+  winRate: number;
+  averageReturn: number;
+  totalReturn: number;
+  profitFactor: number | null;
+}
+
+// Risk and performance metrics over the closed trades of a run. Returns are
+// per-trade percentages net of costs; drawdown is measured on the compounded
+// trade sequence and Sharpe/Sortino are per trade (not annualised).
+export interface PerformanceMetrics {
+  maxDrawdown: number;
+  maxDrawdownDurationDays: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  profitFactor: number | null;
+  expectancy: number;
+  averageMae: number;
+  averageMfe: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  exposureTime: number;
+  bySide: {
+    LONG: SideMetrics;
+    SHORT: SideMetrics;
+  };
+}
+
+export interface BacktestStats {
+  totalCandles: number;
+  legendCandles: number;
+  successRate: number;
+  successfulTrades: number;
+  ambiguousEntries: number;
+  closedTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  averageWin: number;
+  averageLoss: number;
+  totalReturn: number;
+  grossTotalReturn: number;
+  initialBalance?: number;
+  finalBalance?: number;
+  rejectedOrders?: number;
+}
+
+// Distance of a take-profit or stop-loss level from the entry price:
+// - percent: value is a percentage of the entry price
+// - thresholdMultiple: value multiplies the legend candle's currentDynamicThreshold (%)
+// - atr: value multiplies the ATR measured over the candles preceding the entry
+export interface ExitLevel {
+  type: 'percent' | 'thresholdMultiple' | 'atr';
+  value: number;
+}
+
+export interface ExitConfig {
+  takeProfit?: ExitLevel;
+  stopLoss?: ExitLevel;
+  maxHoldingCandles?: number;
+  atrPeriod?: number;
+}
+
+// Fallback used when a candle touches both thresholds and no finer data is on disk:
+// - pessimistic / optimistic: pick the entry with the worse / better mark-to-market at the close
+// - openProximity: assume the extreme nearest to the open was reached first
+// - skip: take no entry for this legend candle
+export type AmbiguousCandlePolicy = 'pessimistic' | 'optimistic' | 'skip' | 'openProximity';
+
+export interface AmbiguousCandleConfig {
+  policy: AmbiguousCandlePolicy;
+  resolutionTimeframe?: string;
+}
+
+// Fee rates in percent of notional
+export interface FeeRates {
+  maker: number;
+  taker: number;
+}
+
+// Slippage applied against every fill:
+// - fixedBps: value basis points of the fill price
+// - rangeFraction: value times the fill candle's high-low range
+// - volume: value basis points at the average volume of the previous
+//   volumeLookback candles, scaled by average / fill candle volume
+export interface SlippageConfig {
+  model: 'none' | 'fixedBps' | 'rangeFraction' | 'volume';
+  value: number;
+  volumeLookback?: number;
+}
+
+// Entries, stop-losses and time-based exits fill as taker; take-profit and
+// hedging profit-target closes fill as maker. Funding applies to futures only.
+export interface CostConfig {
+  fees: {
+    spot: FeeRates;
+    um: FeeRates;
+    cm: FeeRates;
+  };
+  slippage: SlippageConfig;
+  funding?: {
+    enabled: boolean;
+    ratePercent: number;
+    intervalHours: number;
+  };
+}
+
+// Position sizing:
+// - fixedNotional: value is the quote notional of every position
+// - fixedFraction: value is the percentage of equity committed per position
+// - volatilityTarget: value is the percentage of equity risked on a move of
+//   one dynamic threshold
+// Notional is capped at equity * maxLeverage (default 1).
+export interface SizingConfig {
+  method: 'fixedNotional' | 'fixedFraction' | 'volatilityTarget';
+  value: number;
+  maxLeverage?: number;
+}
+
+export interface AccountConfig {
+  initialBalance: number;
+  sizing: SizingConfig;
+}
+
+// Zone-recovery hedging: after the entry, every reversal through the opposite
+// threshold opens a leg on the other side, sized by lotMultiplier^(leg - 1).
+// netProfitTarget is a percentage of the first leg's notional.
+export interface HedgingConfig {
+  enabled: boolean;
+  lotMultiplier: number;
+  netProfitTarget: number;
+  maxLegs: number;
+}
+
+// Where and how kline archives are downloaded. baseUrl may point at a mirror
+// of data.binance.vision (or a local fixture server) with the same layout.
+export interface DownloadConfig {
+  baseUrl: string;
+  retries: number;      // Further attempts after a network error, 429 or 5xx
+  backoffMs: number;    // First retry delay, doubled on every attempt, with jitter
+  maxBackoffMs: number;
+  concurrency: number;  // Concurrent requests across all downloads of the process
+}
+
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+// Manifest of a symbol's kline data, kept in kline/{market}/SYMBOL/availability.json.
+// firstAvailable/lastAvailable are the months the archive offers, as found by
+// discovery; timeframes record the months on disk (YYYY-MM).
+export interface DataAvailability {
+  symbol: string;
+  firstAvailable?: YearMonth;
+  lastAvailable?: YearMonth;
+  timeframes: {
+    [key: string]: {
+      downloaded: boolean;
+      firstDownloaded?: YearMonth;
+      lastDownloaded?: YearMonth;
+      months: string[];      // Months with a monthly CSV
+      dailyMonths: string[]; // Months covered only by daily CSVs
+    };
+  };
+  lastUpdated: string;
+  lastDiscovered?: string;
+}
+
+// Result of fetchHistoricalData for one symbol and timeframe
+export interface DownloadSummary {
+  symbol: string;
+  timeframe: string;
+  downloaded: string[]; // Archive names, e.g. ETHUSDT-1m-2024-09
+  // Months with no data after retries and the daily fallback
+  missing: Array<{
+    period: string; // YYYY-MM
+    reason: string;
+  }>;
+}
+
+// How integrity problems found when candles are loaded are handled: fail
+// aborts the run, warn reports them and continues, and repair drops invalid
+// rows, removes duplicates and sorts by openTime (gaps are only reported)
+export type DataValidationMode = 'fail' | 'warn' | 'repair';
+
+export interface DataValidationConfig {
+  mode: DataValidationMode;
+  verifyChecksums: boolean; // Compare downloaded zips with their .CHECKSUM files
+  checksumRetries: number;  // Re-downloads after a checksum mismatch
+}
+
+// Missing candles between two consecutive open times
+export interface CandleGap {
+  from: number; // openTime of the last candle before the gap
+  to: number;   // openTime of the first candle after the gap
+  missingCandles: number;
+}
+
+export interface CandleIntegrityReport {
+  symbol: string;
+  timeframe: string;
+  candles: number;
+  duplicates: number;
+  outOfOrder: number;
+  invalidPrices: number; // Zero, negative or non-numeric open/high/low/close
+  highBelowLow: number;
+  gaps: CandleGap[];
+  missingCandles: number;
+  mode: DataValidationMode;
+  passed: boolean;
+  repaired?: {
+    removedCandles: number;
+    candles: number;
   };
 }
 
+// Symbol metadata is cached per market under cache/exchange-info/. A cache
+// younger than cacheMaxAgeHours is used without calling the exchange, and with
+// offline set any cached copy is used. `file` is a hand-written JSON map of
+// symbol -> SymbolInfo fields (e.g. for delisted symbols) that takes precedence.
+export interface SymbolMetadataConfig {
+  cacheMaxAgeHours: number;
+  offline?: boolean;
+  file?: string;
+}
+
+// Candle sources (see src/candle-sources.ts):
+// - binance: binance.vision kline archives, downloaded into kline/
+// - okx: OKX candlestick archive CSVs in market.directory
+// - csv: any CSV layout in market.directory, described by market.csv
+export type CandleSourceName = 'binance' | 'okx' | 'csv';
+
+// Unit of numeric timestamps in a CSV
+export type TimestampUnit = 's' | 'ms' | 'us' | 'ns';
+
+// A header name, or a zero-based column index (required for headerless files)
+export type CsvColumn = string | number;
+
+// Columns without a mapping are filled with 0, except closeTime, which is
+// derived from the spacing of the open times
+export interface CsvColumnMapping {
+  openTime: CsvColumn;
+  open: CsvColumn;
+  high: CsvColumn;
+  low: CsvColumn;
+  close: CsvColumn;
+  volume: CsvColumn;
+  closeTime?: CsvColumn;
+  quoteAssetVolume?: CsvColumn;
+  trades?: CsvColumn;
+  takerBuyBaseAssetVolume?: CsvColumn;
+  takerBuyQuoteAssetVolume?: CsvColumn;
+}
+
+export interface CsvSourceFormat {
+  columns: Partial<CsvColumnMapping>;
+  hasHeader?: boolean;            // Default true
+  delimiter?: string;             // Default ,
+  timestampUnit?: TimestampUnit;  // Of numeric timestamps, default ms
+  // Of date-time strings without an offset such as 2024-01-01 08:00:00: UTC
+  // (the default), a fixed offset such as +08:00 or an IANA name such as Asia/Tokyo
+  timezone?: string;
+}
+
+// Strategy plugins selected by name from the strategy registry. modulePath
+// points at a module exporting `register(registry)` that adds custom plugins.
+export interface StrategyPluginConfig {
+  legendDetector?: string;
+  entryRule?: string;
+  exitRule?: string;
+  modulePath?: string;
+}
+
+// Legend detection and the entry band are both scaled from the volatility of
+// the lookback candles (see VolatilityMeasureName):
+// - a legend candle's body % is at least legendTriggerMultiple * volatility
+// - entry thresholds sit entryBandMultiple * volatility % around its close
+export interface StrategyConfig {
+  lookback: {
+    candles: number;
+    // Lookback candles per timeframe, taking precedence over `candles`
+    timeframeOverrides?: { [timeframe: string]: number };
+  };
+  legendTriggerMultiple: number;
+  entryBandMultiple: number;
+  volatilityMeasure?: VolatilityMeasureName;
+  plugins?: StrategyPluginConfig;
+}
+
+// Strategy parameters actually applied to a run, after defaults and overrides
+export interface EffectiveStrategyParameters {
+  timeframe: string;
+  lookbackCandles: number;
+  lookbackSource: 'timeframeOverride' | 'candles';
+  legendTriggerMultiple: number;
+  entryBandMultiple: number;
+  volatilityMeasure: VolatilityMeasureName;
+  maxLookForwardCandles: number;
+  legendDetector: string;
+  entryRule: string;
+  exitRule: string;
+}
+
 export interface TradingConfig {
   dataFetch: {
     startDate: {
@@ -106,16 +514,31 @@ export interface TradingConfig {
       year: number;
       month: number;
     };
+    // Download only this timeframe and build the backtest timeframe from it
+    resampleFrom?: string;
   };
   trade: {
     maxLookForwardCandles: number;
+    exit?: ExitConfig;
+    hedging?: HedgingConfig;
+    ambiguousCandles?: AmbiguousCandleConfig;
   };
-  strategy: {
-    lookbackPeriod: {
-      candles: number;
-      threshold: number;
-      thresholdMultiplier: number;
-    };
+  strategy: StrategyConfig;
+  costs?: CostConfig;
+  account?: AccountConfig;
+  optimizer?: OptimizerConfig;
+  walkForward?: WalkForwardConfig;
+  monteCarlo?: MonteCarloConfig;
+  symbolMetadata?: SymbolMetadataConfig;
+  download?: DownloadConfig;
+  dataValidation?: DataValidationConfig;
+  // Binary cache of parsed kline CSVs, in a .cache directory next to them
+  candleCache?: {
+    enabled: boolean;
+  };
+  // Where result files are written; defaults to results/ in the repository
+  output?: {
+    directory: string;
   };
   singleBacktest: {
     symbol: string;
@@ -123,10 +546,18 @@ export interface TradingConfig {
   };
   market: {
     type: 'futures' | 'spot';
-    subType: 'um' | 'cm';
+    // Futures contract type; absent on spot markets
+    subType?: 'um' | 'cm';
+    // Where candles come from; defaults to binance
+    source?: CandleSourceName;
+    // Local CSV directory of the okx and csv sources; {symbol} and {timeframe}
+    // are replaced per run, and relative paths resolve from the working directory
+    directory?: string;
+    // Column layout of the csv source, or overrides of the okx layout
+    csv?: CsvSourceFormat;
   };
   backtestMode: {
-    type: 'single' | 'batch';
+    type: 'single' | 'batch' | 'optimize' | 'walkForward';
     batchProcessing?: {
       parallel: boolean;
       concurrencyLimit: number;
@@ -134,6 +565,140 @@ export interface TradingConfig {
   };
 }
 
+// Either an explicit list of values or an inclusive range
+export type ParameterRange = number[] | { start: number; end: number; step: number };
+
+export type OptimizationObjective =
+  | 'netReturn'
+  | 'successRate'
+  | 'winRate'
+  | 'profitFactor'
+  | 'sharpeRatio'
+  | 'finalBalance';
+
+export interface OptimizerConfig {
+  parameters: {
+    legendTriggerMultiple?: ParameterRange;
+    entryBandMultiple?: ParameterRange;
+    lookbackCandles?: ParameterRange;
+    maxLookForwardCandles?: ParameterRange;
+  };
+  objective: OptimizationObjective;
+  workers?: number;
+}
+
+// One evaluated point of the parameter grid
+export interface ParameterSet {
+  legendTriggerMultiple: number;
+  entryBandMultiple: number;
+  lookbackCandles?: number;
+  maxLookForwardCandles: number;
+}
+
+export interface OptimizationRun {
+  rank: number;
+  parameters: ParameterSet;
+  objectiveValue: number;
+  stats: BacktestStats;
+  metrics: PerformanceMetrics;
+}
+
+export interface OptimizationResult {
+  symbol: string;
+  timeframe: string;
+  objective: OptimizationObjective;
+  combinations: number;
+  durationMs: number;
+  config: TradingConfig;
+  runs: OptimizationRun[];
+}
+
+// Walk-forward slicing. Window lengths are in calendar months or candles;
+// rolling windows move the in-sample start by `step` (default outOfSample),
+// anchored windows keep the first in-sample start and grow.
+export interface WalkForwardConfig {
+  mode: 'rolling' | 'anchored';
+  unit: 'months' | 'candles';
+  inSample: number;
+  outOfSample: number;
+  step?: number;
+}
+
+export interface WalkForwardPeriod {
+  start: string;
+  end: string;
+  candles: number;
+}
+
+export interface WalkForwardWindow {
+  window: number;
+  inSample: WalkForwardPeriod;
+  outOfSample: WalkForwardPeriod;
+  bestParameters: ParameterSet;
+  inSampleObjective: number;
+  inSampleReturn: number;
+  outOfSampleStats: BacktestStats;
+  efficiency: number | null;
+}
+
+export interface WalkForwardResult {
+  symbol: string;
+  timeframe: string;
+  objective: OptimizationObjective;
+  config: TradingConfig;
+  windows: WalkForwardWindow[];
+  combined: {
+    trades: number;
+    winRate: number;
+    totalReturn: number;
+    metrics: PerformanceMetrics;
+  };
+  // Annualised out-of-sample return over annualised in-sample return
+  walkForwardEfficiency: number | null;
+}
+
+// Robustness analysis of a run's legend candles. positionFraction is the
+// percentage of equity committed per trade; ruin means equity falling to
+// (100 - ruinThreshold)% of the starting balance.
+export interface MonteCarloConfig {
+  iterations: number;
+  confidenceLevel: number;
+  skipProbability: number;
+  positionFraction: number;
+  ruinThreshold: number;
+  seed?: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  lower: number;
+  upper: number;
+}
+
+export interface SimulationDistributions {
+  successRate: DistributionSummary;
+  winRate: DistributionSummary;
+  totalReturn: DistributionSummary;
+  maxDrawdown: DistributionSummary;
+  probabilityOfRuin: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number; // Set as monteCarlo.seed to reproduce the simulated paths
+  confidenceLevel: number;
+  sampleSize: number;
+  positionFraction: number;
+  ruinThreshold: number;
+  shuffle: SimulationDistributions;
+  bootstrap: SimulationDistributions;
+  randomSkip: SimulationDistributions;
+}
+
 export interface CandleData {
   openTime: number;
   open: number;
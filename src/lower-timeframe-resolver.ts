@@ -0,0 +1,99 @@
+import moment from 'moment';
+import { loadCandles } from './candle-cache';
+import { CandleSource, createCandleSource } from './candle-sources';
+import { formatMonth, fromMonthIndex, listRequestedMonths, toMonthIndex } from './data-availability';
+import { CandleData, TradingConfig } from './interfaces';
+
+// Serves candles of a finer timeframe from the run's candle source, loading
+// each month's CSVs at most once
+export class LowerTimeframeResolver {
+  private monthCache: Map<string, CandleData[]> = new Map();
+  private candleSource: CandleSource;
+  private allFilesLoaded?: Promise<void>;
+
+  constructor(
+    private symbol: string,
+    private timeframe: string,
+    private runConfig: TradingConfig
+  ) {
+    this.candleSource = createCandleSource(runConfig);
+  }
+
+  private async loadMonth(month: moment.Moment): Promise<CandleData[]> {
+    const key = month.format('YYYY-MM');
+    if (!this.candleSource.monthlyFiles) {
+      this.allFilesLoaded ??= this.loadAllFiles(
+        this.candleSource.listMonthFiles(this.symbol, this.timeframe, key)
+      );
+      await this.allFilesLoaded;
+      return this.monthCache.get(key) ?? [];
+    }
+
+    const cached = this.monthCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const monthStart = month.valueOf();
+    const monthEnd = month.clone().add(1, 'month').valueOf() - 1;
+    const files = this.candleSource.listMonthFiles(this.symbol, this.timeframe, key);
+
+    let candles: CandleData[] = [];
+    for (const file of files) {
+      candles = candles.concat(await loadCandles(file, monthStart, monthEnd, this.runConfig));
+    }
+
+    this.monthCache.set(key, candles);
+    return candles;
+  }
+
+  // Files of sources without monthly files may hold any month, so each is
+  // read once and its candles split into the months of the requested range.
+  // The month before the range is kept too, since the range starts at local
+  // midnight, which can fall on the last UTC day of that month.
+  private async loadAllFiles(files: string[]): Promise<void> {
+    const { startDate } = this.runConfig.dataFetch;
+    const requested = new Set([
+      formatMonth(fromMonthIndex(toMonthIndex(startDate) - 1)),
+      ...listRequestedMonths(this.runConfig),
+    ]);
+
+    for (const file of files) {
+      for (const candle of await loadCandles(file, 0, Number.MAX_SAFE_INTEGER, this.runConfig)) {
+        const openTime = new Date(candle.openTime);
+        const key = formatMonth({ year: openTime.getUTCFullYear(), month: openTime.getUTCMonth() + 1 });
+        if (!requested.has(key)) {
+          continue;
+        }
+        let monthCandles = this.monthCache.get(key);
+        if (!monthCandles) {
+          monthCandles = [];
+          this.monthCache.set(key, monthCandles);
+        }
+        monthCandles.push(candle);
+      }
+    }
+  }
+
+  // Returns the finer candles opening within [openTime, closeTime] in time
+  // order, or an empty array when none are available locally
+  public async getSubCandles(openTime: number, closeTime: number): Promise<CandleData[]> {
+    const subCandles: CandleData[] = [];
+    const lastMonth = moment.utc(closeTime).startOf('month');
+
+    for (
+      let month = moment.utc(openTime).startOf('month');
+      month.isSameOrBefore(lastMonth);
+      month.add(1, 'month')
+    ) {
+      const candles = await this.loadMonth(month);
+      for (const candle of candles) {
+        if (candle.openTime >= openTime && candle.openTime <= closeTime) {
+          subCandles.push(candle);
+        }
+      }
+    }
+
+    return subCandles.sort((a, b) => a.openTime - b.openTime);
+  }
+}
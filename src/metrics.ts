@@ -0,0 +1,119 @@
+import { PerformanceMetrics, SideMetrics } from './interfaces';
+
+// A closed trade as seen by the metrics: net return and excursions in
+// percent of the entry notional, times in milliseconds
+export interface TradeRecord {
+  side: 'LONG' | 'SHORT';
+  pnlPercent: number;
+  entryTime: number;
+  exitTime: number;
+  mae: number;
+  mfe: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance =
+    values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function profitFactor(returns: number[]): number | null {
+  const grossProfit = returns.filter((r) => r > 0).reduce((a, b) => a + b, 0);
+  const grossLoss = -returns.filter((r) => r < 0).reduce((a, b) => a + b, 0);
+  return grossLoss > 0 ? grossProfit / grossLoss : null;
+}
+
+function compoundedReturn(returns: number[]): number {
+  return (returns.reduce((equity, r) => equity * (1 + r / 100), 1) - 1) * 100;
+}
+
+function calculateSideMetrics(trades: TradeRecord[]): SideMetrics {
+  const returns = trades.map((trade) => trade.pnlPercent);
+  return {
+    trades: trades.length,
+    winRate:
+      trades.length > 0
+        ? (returns.filter((r) => r > 0).length / trades.length) * 100
+        : 0,
+    averageReturn: mean(returns),
+    totalReturn: compoundedReturn(returns),
+    profitFactor: profitFactor(returns),
+  };
+}
+
+// Deepest peak-to-trough decline of the compounded trade sequence and the
+// longest time spent below a previous peak
+export function calculateDrawdown(
+  trades: TradeRecord[]
+): { maxDrawdown: number; maxDrawdownDurationDays: number } {
+  let equity = 1;
+  let peak = 1;
+  let peakTime = trades.length > 0 ? trades[0].entryTime : 0;
+  let maxDrawdown = 0;
+  let maxDuration = 0;
+
+  for (const trade of trades) {
+    equity *= 1 + trade.pnlPercent / 100;
+    if (equity >= peak) {
+      maxDuration = Math.max(maxDuration, trade.exitTime - peakTime);
+      peak = equity;
+      peakTime = trade.exitTime;
+    } else {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+    }
+  }
+
+  // A drawdown still open at the end lasts until the last exit
+  if (trades.length > 0 && equity < peak) {
+    maxDuration = Math.max(maxDuration, trades[trades.length - 1].exitTime - peakTime);
+  }
+
+  return { maxDrawdown, maxDrawdownDurationDays: maxDuration / DAY_MS };
+}
+
+function longestStreak(returns: number[], predicate: (r: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const r of returns) {
+    current = predicate(r) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// exposureTime is the share of candles (in percent) with an open position
+export function calculatePerformanceMetrics(
+  trades: TradeRecord[],
+  exposureTime: number
+): PerformanceMetrics {
+  const ordered = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+  const returns = ordered.map((trade) => trade.pnlPercent);
+  const averageReturn = mean(returns);
+  const volatility = standardDeviation(returns);
+  const downside = Math.sqrt(mean(returns.map((r) => Math.min(r, 0) ** 2)));
+
+  return {
+    ...calculateDrawdown(ordered),
+    sharpeRatio: volatility > 0 ? averageReturn / volatility : 0,
+    sortinoRatio: downside > 0 ? averageReturn / downside : 0,
+    profitFactor: profitFactor(returns),
+    expectancy: averageReturn,
+    averageMae: mean(ordered.map((trade) => trade.mae)),
+    averageMfe: mean(ordered.map((trade) => trade.mfe)),
+    longestWinStreak: longestStreak(returns, (r) => r > 0),
+    longestLossStreak: longestStreak(returns, (r) => r <= 0),
+    exposureTime,
+    bySide: {
+      LONG: calculateSideMetrics(ordered.filter((trade) => trade.side === 'LONG')),
+      SHORT: calculateSideMetrics(ordered.filter((trade) => trade.side === 'SHORT')),
+    },
+  };
+}
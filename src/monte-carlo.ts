@@ -0,0 +1,192 @@
+import {
+  DistributionSummary,
+  MonteCarloConfig,
+  MonteCarloResult,
+  SimulationDistributions,
+  ThresholdResult,
+} from './interfaces';
+
+// What a simulation needs from each legend candle
+interface Sample {
+  triggered: boolean;
+  pnlPercent?: number;
+}
+
+interface PathOutcome {
+  successRate: number;
+  winRate: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  ruined: boolean;
+}
+
+// Deterministic PRNG (mulberry32) so a seeded analysis can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+// Shuffles trade order, bootstraps and randomly skips legend candles to put
+// confidence intervals around a run's success rate, return and drawdown
+export class MonteCarloAnalyzer {
+  private seed: number;
+  private random: () => number;
+
+  // Without a configured seed one is drawn from the clock and recorded in the
+  // result, so any run can be repeated
+  constructor(private settings: MonteCarloConfig) {
+    this.seed = (settings.seed ?? Date.now()) >>> 0;
+    this.random = createRandom(this.seed);
+  }
+
+  private summarize(values: number[]): DistributionSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const variance =
+      values.length > 1
+        ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+        : 0;
+    const tail = (1 - this.settings.confidenceLevel / 100) / 2;
+
+    return {
+      mean,
+      median: percentile(sorted, 0.5),
+      stdDev: Math.sqrt(variance),
+      min: sorted.length > 0 ? sorted[0] : 0,
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+      lower: percentile(sorted, tail),
+      upper: percentile(sorted, 1 - tail),
+    };
+  }
+
+  // Compounds the sized trade returns of one simulated path
+  private evaluatePath(path: Sample[]): PathOutcome {
+    const fraction = this.settings.positionFraction / 100;
+    const ruinLevel = 1 - this.settings.ruinThreshold / 100;
+    let equity = 1;
+    let peak = 1;
+    let maxDrawdown = 0;
+    let ruined = false;
+    let trades = 0;
+    let wins = 0;
+
+    for (const sample of path) {
+      if (sample.pnlPercent === undefined) continue;
+      trades++;
+      if (sample.pnlPercent > 0) wins++;
+
+      equity *= 1 + (sample.pnlPercent / 100) * fraction;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+      if (equity <= ruinLevel) ruined = true;
+    }
+
+    const triggered = path.filter((sample) => sample.triggered).length;
+    return {
+      successRate: path.length > 0 ? (triggered / path.length) * 100 : 0,
+      winRate: trades > 0 ? (wins / trades) * 100 : 0,
+      totalReturn: (equity - 1) * 100,
+      maxDrawdown,
+      ruined,
+    };
+  }
+
+  private simulate(samples: Sample[], buildPath: (samples: Sample[]) => Sample[]): SimulationDistributions {
+    const outcomes: PathOutcome[] = [];
+    for (let i = 0; i < this.settings.iterations; i++) {
+      outcomes.push(this.evaluatePath(buildPath(samples)));
+    }
+
+    return {
+      successRate: this.summarize(outcomes.map((o) => o.successRate)),
+      winRate: this.summarize(outcomes.map((o) => o.winRate)),
+      totalReturn: this.summarize(outcomes.map((o) => o.totalReturn)),
+      maxDrawdown: this.summarize(outcomes.map((o) => o.maxDrawdown)),
+      probabilityOfRuin:
+        outcomes.length > 0
+          ? (outcomes.filter((o) => o.ruined).length / outcomes.length) * 100
+          : 0,
+    };
+  }
+
+  private shuffle = (samples: Sample[]): Sample[] => {
+    const path = [...samples];
+    for (let i = path.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [path[i], path[j]] = [path[j], path[i]];
+    }
+    return path;
+  };
+
+  private bootstrap = (samples: Sample[]): Sample[] =>
+    samples.map(() => samples[Math.floor(this.random() * samples.length)]);
+
+  private randomSkip = (samples: Sample[]): Sample[] =>
+    samples.filter(() => this.random() >= this.settings.skipProbability);
+
+  public analyze(results: ThresholdResult[]): MonteCarloResult {
+    const samples: Sample[] = results.map((result) => ({
+      triggered: result.success,
+      pnlPercent: result.hedge?.netPnlPercent ?? result.exit?.pnlPercent,
+    }));
+
+    this.random = createRandom(this.seed);
+    return {
+      iterations: this.settings.iterations,
+      seed: this.seed,
+      confidenceLevel: this.settings.confidenceLevel,
+      sampleSize: samples.length,
+      positionFraction: this.settings.positionFraction,
+      ruinThreshold: this.settings.ruinThreshold,
+      shuffle: this.simulate(samples, this.shuffle),
+      bootstrap: this.simulate(samples, this.bootstrap),
+      randomSkip: this.simulate(samples, this.randomSkip),
+    };
+  }
+
+  public static formatSummary(title: string, result: MonteCarloResult): string {
+    const interval = (d: DistributionSummary) =>
+      `${d.median.toFixed(2)} [${d.lower.toFixed(2)}, ${d.upper.toFixed(2)}]`;
+    const lines = [
+      `Monte Carlo analysis - ${title}`,
+      `${result.iterations} iterations over ${result.sampleSize} legend candles, ` +
+        `${result.confidenceLevel}% confidence intervals (median [lower, upper])`,
+      `Position size: ${result.positionFraction}% of equity per trade, ruin at -${result.ruinThreshold}%`,
+      `Seed: ${result.seed}`,
+      '',
+    ];
+
+    const sections: Array<[string, SimulationDistributions]> = [
+      ['Trade-order shuffle', result.shuffle],
+      ['Bootstrap resampling', result.bootstrap],
+      ['Random trade skipping', result.randomSkip],
+    ];
+    for (const [name, distributions] of sections) {
+      lines.push(
+        name,
+        `  Success rate (%):  ${interval(distributions.successRate)}`,
+        `  Win rate (%):      ${interval(distributions.winRate)}`,
+        `  Total return (%):  ${interval(distributions.totalReturn)}`,
+        `  Max drawdown (%):  ${interval(distributions.maxDrawdown)}`,
+        `  Probability of ruin: ${distributions.probabilityOfRuin.toFixed(2)}%`,
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
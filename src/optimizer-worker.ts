@@ -0,0 +1,31 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Backtester } from './backtest';
+import { unpackCandles } from './candle-loader';
+import { applyParameters, EvaluatedParameterSet, OptimizerWorkerData } from './optimizer';
+
+async function main() {
+  const { symbol, runConfig, symbolInfo, candleBuffer, parameterSets } =
+    workerData as OptimizerWorkerData;
+  const candles = unpackCandles(candleBuffer);
+
+  for (const parameters of parameterSets) {
+    const backtester = new Backtester(symbol, applyParameters(runConfig, parameters));
+    backtester.setSymbolInfo(symbolInfo);
+    backtester.setCandles(candles);
+    // Progress for every combination would flood the parent's stdout, which
+    // reports progress instead; warnings are still printed
+    await backtester.findThresholds({ saveResults: false, quiet: true });
+
+    const message: EvaluatedParameterSet = {
+      parameters,
+      stats: backtester.getStats(),
+      metrics: backtester.getMetrics(),
+    };
+    parentPort!.postMessage(message);
+  }
+}
+
+main().catch((error) => {
+  console.error('Optimizer worker failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,299 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import config, { getResultsDirectory } from './config';
+import { packCandles } from './candle-loader';
+import { reportUnusedConfig } from './config-validation';
+import {
+  BacktestStats,
+  CandleData,
+  OptimizationObjective,
+  OptimizationResult,
+  OptimizationRun,
+  ParameterRange,
+  ParameterSet,
+  PerformanceMetrics,
+  SymbolInfo,
+  TradingConfig,
+} from './interfaces';
+
+// Rough heap size of one unpacked CandleData object and its array slot
+const CANDLE_OBJECT_BYTES = 160;
+
+// Message posted by the worker for every evaluated parameter set
+export interface EvaluatedParameterSet {
+  parameters: ParameterSet;
+  stats: BacktestStats;
+  metrics: PerformanceMetrics;
+}
+
+export interface OptimizerWorkerData {
+  symbol: string;
+  runConfig: TradingConfig;
+  symbolInfo: SymbolInfo;
+  candleBuffer: SharedArrayBuffer;
+  parameterSets: ParameterSet[];
+}
+
+export function expandRange(range: ParameterRange | undefined, fallback: number): number[] {
+  if (!range) return [fallback];
+  if (Array.isArray(range)) return range;
+
+  if (range.step <= 0) {
+    throw new Error(`Parameter range step must be positive, got ${range.step}`);
+  }
+  const values: number[] = [];
+  // Rounding keeps fractional steps such as 0.1 from drifting
+  for (let value = range.start; value <= range.end + 1e-9; value += range.step) {
+    values.push(Number(value.toFixed(10)));
+  }
+  return values;
+}
+
+export function buildParameterGrid(runConfig: TradingConfig): ParameterSet[] {
+  const parameters = runConfig.optimizer?.parameters ?? {};
+  const { strategy } = runConfig;
+
+  const triggerMultiples = expandRange(
+    parameters.legendTriggerMultiple,
+    strategy.legendTriggerMultiple
+  );
+  const bandMultiples = expandRange(parameters.entryBandMultiple, strategy.entryBandMultiple);
+  const lookForwards = expandRange(
+    parameters.maxLookForwardCandles,
+    runConfig.trade.maxLookForwardCandles
+  );
+  // Without a lookback range the configured lookback stays in effect
+  const lookbacks: Array<number | undefined> = parameters.lookbackCandles
+    ? expandRange(parameters.lookbackCandles, strategy.lookback.candles)
+    : [undefined];
+
+  const grid: ParameterSet[] = [];
+  for (const legendTriggerMultiple of triggerMultiples) {
+    for (const entryBandMultiple of bandMultiples) {
+      for (const lookbackCandles of lookbacks) {
+        for (const maxLookForwardCandles of lookForwards) {
+          grid.push({
+            legendTriggerMultiple,
+            entryBandMultiple,
+            lookbackCandles,
+            maxLookForwardCandles,
+          });
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+export function applyParameters(runConfig: TradingConfig, parameters: ParameterSet): TradingConfig {
+  return {
+    ...runConfig,
+    trade: {
+      ...runConfig.trade,
+      maxLookForwardCandles: parameters.maxLookForwardCandles,
+    },
+    strategy: {
+      ...runConfig.strategy,
+      legendTriggerMultiple: parameters.legendTriggerMultiple,
+      entryBandMultiple: parameters.entryBandMultiple,
+      // A lookback from the grid replaces every per-timeframe override
+      ...(parameters.lookbackCandles !== undefined && {
+        lookback: { candles: parameters.lookbackCandles },
+      }),
+    },
+  };
+}
+
+export function getObjectiveValue(
+  objective: OptimizationObjective,
+  stats: BacktestStats,
+  metrics: PerformanceMetrics
+): number {
+  switch (objective) {
+    case 'netReturn':
+      return stats.totalReturn;
+    case 'successRate':
+      return stats.successRate;
+    case 'winRate':
+      return stats.winRate;
+    case 'profitFactor':
+      return metrics.profitFactor ?? 0;
+    case 'sharpeRatio':
+      return metrics.sharpeRatio;
+    case 'finalBalance':
+      return stats.finalBalance ?? 0;
+    default:
+      throw new Error(`Unsupported optimization objective: ${objective}`);
+  }
+}
+
+// Runs every combination of the configured parameter grid against candles
+// held in memory, spreading the grid over worker threads
+export class GridOptimizer {
+  constructor(
+    private symbol: string,
+    private runConfig: TradingConfig = config
+  ) {}
+
+  // Each worker rebuilds the candles as objects from the shared buffer (the
+  // strategies index CandleData arrays), so workers are also capped to what
+  // half the free memory can hold
+  private getWorkerCount(combinations: number, candleCount: number): number {
+    const configured = this.runConfig.optimizer?.workers;
+    const available = Math.max(1, os.cpus().length - 1);
+    const requested = Math.max(1, Math.min(configured ?? available, combinations));
+
+    const memoryLimit = Math.max(1, Math.floor(os.freemem() / 2 / (candleCount * CANDLE_OBJECT_BYTES)));
+    if (memoryLimit < requested) {
+      console.log(
+        `Warning: using ${memoryLimit} of ${requested} optimizer workers, each holds a copy of the ${candleCount} candles`
+      );
+      return memoryLimit;
+    }
+    return requested;
+  }
+
+  // Starts a worker on one chunk of the grid and adds it to `workers`
+  private runWorker(
+    workerData: OptimizerWorkerData,
+    onResult: () => void,
+    workers: Worker[]
+  ): Promise<EvaluatedParameterSet[]> {
+    // Under ts-node the worker is loaded from source; it was already
+    // type-checked by the parent, so transpiling is enough
+    const isTypeScript = __filename.endsWith('.ts');
+    const workerPath = path.join(__dirname, `optimizer-worker${isTypeScript ? '.ts' : '.js'}`);
+
+    return new Promise((resolve, reject) => {
+      const evaluated: EvaluatedParameterSet[] = [];
+      const worker = new Worker(workerPath, {
+        workerData,
+        execArgv: isTypeScript ? ['--require', 'ts-node/register'] : undefined,
+        env: isTypeScript ? { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' } : process.env,
+      });
+      workers.push(worker);
+
+      worker.on('message', (message: EvaluatedParameterSet) => {
+        evaluated.push(message);
+        onResult();
+      });
+      worker.on('error', reject);
+      worker.on('exit', (code) => {
+        if (code !== 0) {
+          reject(new Error(`Optimizer worker exited with code ${code}`));
+        } else {
+          resolve(evaluated);
+        }
+      });
+    });
+  }
+
+  // Evaluates the whole grid on the given candles and returns the runs ranked
+  // by the configured objective, without writing anything to disk
+  public async evaluate(candles: CandleData[], symbolInfo: SymbolInfo): Promise<OptimizationRun[]> {
+    const objective = this.runConfig.optimizer?.objective ?? 'netReturn';
+    const grid = buildParameterGrid(this.runConfig);
+    const workerCount = this.getWorkerCount(grid.length, candles.length);
+
+    console.log(`\nOptimizing ${this.symbol} over ${grid.length} combinations with ${workerCount} workers`);
+    // Workers skip progress logging and unused config, which is reported here
+    reportUnusedConfig(this.runConfig);
+
+    const candleBuffer = packCandles(candles);
+    const chunks: ParameterSet[][] = Array.from({ length: workerCount }, () => []);
+    grid.forEach((parameters, i) => chunks[i % workerCount].push(parameters));
+
+    let completed = 0;
+    const onResult = () => {
+      completed++;
+      if (completed % 10 === 0 || completed === grid.length) {
+        console.log(`Evaluated ${completed}/${grid.length} combinations`);
+      }
+    };
+
+    // When one worker fails the others would keep running on the shared
+    // candle buffer, so every worker is stopped once the grid is done
+    const workers: Worker[] = [];
+    let evaluated: EvaluatedParameterSet[];
+    try {
+      evaluated = (
+        await Promise.all(
+          chunks.map((parameterSets) =>
+            this.runWorker(
+              {
+                symbol: this.symbol,
+                runConfig: this.runConfig,
+                symbolInfo,
+                candleBuffer,
+                parameterSets,
+              },
+              onResult,
+              workers
+            )
+          )
+        )
+      ).flat();
+    } finally {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    return evaluated
+      .map(({ parameters, stats, metrics }) => ({
+        rank: 0,
+        parameters,
+        objectiveValue: getObjectiveValue(objective, stats, metrics),
+        stats,
+        metrics,
+      }))
+      .sort((a, b) => b.objectiveValue - a.objectiveValue)
+      .map((run, i) => ({ ...run, rank: i + 1 }));
+  }
+
+  public async run(candles: CandleData[], symbolInfo: SymbolInfo): Promise<OptimizationResult> {
+    const startTime = Date.now();
+    const runs = await this.evaluate(candles, symbolInfo);
+
+    const result: OptimizationResult = {
+      symbol: this.symbol,
+      timeframe: this.runConfig.singleBacktest.timeframe,
+      objective: this.runConfig.optimizer?.objective ?? 'netReturn',
+      combinations: runs.length,
+      durationMs: Date.now() - startTime,
+      config: this.runConfig,
+      runs,
+    };
+
+    await this.saveResults(result);
+    this.printRanking(result);
+    return result;
+  }
+
+  private printRanking(result: OptimizationResult, limit: number = 10): void {
+    console.log(`\nTop ${Math.min(limit, result.runs.length)} by ${result.objective}:`);
+    console.table(
+      result.runs.slice(0, limit).map((run) => ({
+        rank: run.rank,
+        ...run.parameters,
+        [result.objective]: Number(run.objectiveValue.toFixed(4)),
+        legends: run.stats.legendCandles,
+        trades: run.stats.closedTrades,
+        winRate: Number(run.stats.winRate.toFixed(2)),
+        netReturn: Number(run.stats.totalReturn.toFixed(2)),
+      }))
+    );
+  }
+
+  private async saveResults(result: OptimizationResult): Promise<void> {
+    const resultsDir = path.join(getResultsDirectory(this.runConfig), this.symbol);
+    await fs.promises.mkdir(resultsDir, { recursive: true });
+
+    const resultPath = path.join(
+      resultsDir,
+      `${result.timeframe}_optimization.json`
+    );
+    await fs.promises.writeFile(resultPath, JSON.stringify(result, null, 2));
+    console.log(`✅ Optimization results saved to ${resultPath}`);
+  }
+}
@@ -0,0 +1,102 @@
+import { SizingConfig, SymbolInfo } from './interfaces';
+import { countDecimals } from './symbol-metadata';
+
+export type SizingDecision =
+  | { accepted: true; quantity: number; notional: number }
+  | { accepted: false; reason: string };
+
+// Turns account equity into an order quantity that respects the symbol's
+// step size, minimum quantity and minimum notional
+export class PositionSizer {
+  constructor(
+    private sizing: SizingConfig,
+    private symbolInfo: SymbolInfo
+  ) {}
+
+  private roundToStep(quantity: number): number {
+    const { stepSize, quantityPrecision } = this.symbolInfo;
+    const step = stepSize ?? Math.pow(10, -quantityPrecision);
+    // Steps such as 0.25 need more decimals than a hand-written
+    // quantityPrecision may give them
+    const decimals = stepSize === undefined ? quantityPrecision : countDecimals(String(stepSize));
+    // The epsilon keeps values like 0.3 / 0.1 from flooring to 2
+    const steps = Math.floor(quantity / step + 1e-9);
+    // toFixed only strips float noise; it never rounds up to the next step
+    return Number((steps * step).toFixed(decimals));
+  }
+
+  // dynamicThreshold is the legend candle's threshold in percent, used as
+  // the risk unit by the volatility-targeted method. openNotional is the
+  // notional already held in other positions, which counts against
+  // maxLeverage. exposureFactor is the notional the whole position adds per
+  // unit of entry notional, above 1 when hedge legs follow the entry.
+  public size(
+    equity: number,
+    price: number,
+    dynamicThreshold: number,
+    openNotional: number = 0,
+    exposureFactor: number = 1
+  ): SizingDecision {
+    if (equity <= 0) {
+      return { accepted: false, reason: 'Account balance depleted' };
+    }
+
+    let targetNotional: number;
+    switch (this.sizing.method) {
+      case 'fixedNotional':
+        targetNotional = this.sizing.value;
+        break;
+      case 'fixedFraction':
+        targetNotional = equity * (this.sizing.value / 100);
+        break;
+      case 'volatilityTarget':
+        // Risk value% of equity on a move of one dynamic threshold
+        targetNotional =
+          dynamicThreshold > 0
+            ? (equity * (this.sizing.value / 100)) / (dynamicThreshold / 100)
+            : 0;
+        break;
+      default: {
+        const method: never = this.sizing.method;
+        throw new Error(`Unsupported sizing method: ${method}`);
+      }
+    }
+
+    const availableNotional = equity * (this.sizing.maxLeverage ?? 1) - openNotional;
+    if (availableNotional <= 0) {
+      return { accepted: false, reason: 'Open positions already use the maximum leverage' };
+    }
+    const cappedNotional = Math.min(targetNotional, availableNotional / exposureFactor);
+
+    const decision = this.validate(this.roundToStep(cappedNotional / price), price);
+    if (!decision.accepted && cappedNotional < targetNotional) {
+      return { accepted: false, reason: `${decision.reason} after capping at maxLeverage` };
+    }
+    return decision;
+  }
+
+  // A hedge leg of `lotSize` times the entry quantity, rounded and checked
+  // against the same exchange rules as the entry
+  public sizeHedgeLeg(entryQuantity: number, lotSize: number, price: number): SizingDecision {
+    return this.validate(this.roundToStep(entryQuantity * lotSize), price);
+  }
+
+  private validate(quantity: number, price: number): SizingDecision {
+    const notional = quantity * price;
+
+    if (quantity <= 0) {
+      return { accepted: false, reason: 'Quantity rounds to zero' };
+    }
+    if (this.symbolInfo.minQty !== undefined && quantity < this.symbolInfo.minQty) {
+      return { accepted: false, reason: `Quantity ${quantity} below minimum ${this.symbolInfo.minQty}` };
+    }
+    if (this.symbolInfo.minNotional !== undefined && notional < this.symbolInfo.minNotional) {
+      return {
+        accepted: false,
+        reason: `Notional ${notional.toFixed(2)} below minimum ${this.symbolInfo.minNotional}`,
+      };
+    }
+
+    return { accepted: true, quantity, notional };
+  }
+}
@@ -0,0 +1,88 @@
+import { timeframeToMilliseconds } from './config';
+import { CandleData } from './interfaces';
+
+// Epoch-aligned buckets start on a Thursday; Binance weeks start on Monday
+const WEEK_OFFSET_MS = 4 * 24 * 60 * 60 * 1000;
+
+function getBucketStart(openTime: number, targetMs: number, timeframe: string): number {
+  const offset = timeframe.endsWith('w') ? WEEK_OFFSET_MS : 0;
+  return Math.floor((openTime - offset) / targetMs) * targetMs + offset;
+}
+
+function mergeBucket(bucketStart: number, targetMs: number, candles: CandleData[]): CandleData {
+  const merged: CandleData = {
+    openTime: bucketStart,
+    open: candles[0].open,
+    high: candles[0].high,
+    low: candles[0].low,
+    close: candles[candles.length - 1].close,
+    volume: 0,
+    closeTime: bucketStart + targetMs - 1,
+    quoteAssetVolume: 0,
+    trades: 0,
+    takerBuyBaseAssetVolume: 0,
+    takerBuyQuoteAssetVolume: 0,
+    ignore: 0,
+  };
+  for (const candle of candles) {
+    merged.high = Math.max(merged.high, candle.high);
+    merged.low = Math.min(merged.low, candle.low);
+    merged.volume += candle.volume;
+    merged.quoteAssetVolume += candle.quoteAssetVolume;
+    merged.trades += candle.trades;
+    merged.takerBuyBaseAssetVolume += candle.takerBuyBaseAssetVolume;
+    merged.takerBuyQuoteAssetVolume += candle.takerBuyQuoteAssetVolume;
+  }
+  return merged;
+}
+
+// Aggregates sorted candles of the base timeframe into a coarser one, which
+// may be any multiple of the base such as 10m, 45m, 3h or 2d. Buckets are
+// aligned to UTC (weeks to Monday) like Binance's own klines. The first and
+// last bucket are dropped when the data starts or ends part-way through them;
+// buckets with missing candles inside the range are kept.
+export function resampleCandles(
+  candles: CandleData[],
+  baseTimeframe: string,
+  targetTimeframe: string
+): CandleData[] {
+  const baseMs = timeframeToMilliseconds(baseTimeframe);
+  const targetMs = timeframeToMilliseconds(targetTimeframe);
+  if (targetMs === baseMs) {
+    return candles;
+  }
+  if (targetMs < baseMs || targetMs % baseMs !== 0) {
+    throw new Error(
+      `Cannot resample ${baseTimeframe} candles into ${targetTimeframe}; the target must be a multiple of the base timeframe`
+    );
+  }
+
+  const resampled: CandleData[] = [];
+  let bucket: CandleData[] = [];
+  let bucketStart = 0;
+  let isFirstBucket = true;
+
+  const flush = (isFirst: boolean, isLast: boolean) => {
+    const startsLate = isFirst && bucket[0].openTime !== bucketStart;
+    const endsEarly = isLast && bucket[bucket.length - 1].openTime !== bucketStart + targetMs - baseMs;
+    if (!startsLate && !endsEarly) {
+      resampled.push(mergeBucket(bucketStart, targetMs, bucket));
+    }
+  };
+
+  for (const candle of candles) {
+    const start = getBucketStart(candle.openTime, targetMs, targetTimeframe);
+    if (bucket.length > 0 && start !== bucketStart) {
+      flush(isFirstBucket, false);
+      isFirstBucket = false;
+      bucket = [];
+    }
+    bucketStart = start;
+    bucket.push(candle);
+  }
+  if (bucket.length > 0) {
+    flush(isFirstBucket, true);
+  }
+
+  return resampled;
+}
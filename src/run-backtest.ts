@@ -1,186 +1,121 @@
-import path from 'path';
-import fs from 'fs';
 import { Backtester } from './backtest';
-import { DataFetcher } from './data-fetcher';
+import { BatchProcessor } from './batch-processor';
+import { createCandleSource } from './candle-sources';
+import { GridOptimizer } from './optimizer';
+import { WalkForwardAnalyzer } from './walk-forward';
 import config, { AVAILABLE_SYMBOLS, AVAILABLE_TIMEFRAMES } from './config';
-import { SymbolInfo } from './interfaces';
+import { SymbolInfo, TradingConfig } from './interfaces';
+
+async function processSymbol(
+  symbol: string,
+  timeframe: string,
+  symbolInfo: SymbolInfo,
+  runConfig: TradingConfig
+) {
+  console.log(`\nProcessing ${symbol} on ${timeframe} timeframe`);
+  console.log(`Price precision: ${symbolInfo.pricePrecision} decimals`);
+  
+  // First: Download data
+  console.log('\n=== Starting Data Download Phase ===');
+  const candleSource = createCandleSource(runConfig);
+  await candleSource.fetchHistoricalData(symbol, timeframe);
+  console.log(' Data download complete');
+
+  // Second: Run backtest
+  console.log('\n=== Starting Backtest Phase ===');
+  const backtester = new Backtester(symbol, {
+    ...runConfig,
+    singleBacktest: {
+      symbol,
+      timeframe
+    }
+  });
+
+  // Set symbol info before processing
+  backtester.setSymbolInfo(symbolInfo);
 
-async function getAllCsvFiles(symbol: string, timeframe: string): Promise<string[]> {
-  // Get the correct base path based on market type
-  const marketType = config.market.type;
-  const subType = config.market.subType;
-  let basePath;
+  const csvFiles = await candleSource.listFiles(symbol, timeframe);
+  console.log(`Loading ${csvFiles.length} CSV files...`);
   
-  if (marketType === 'futures') {
-    basePath = path.join(__dirname, `../kline/${subType}`);
-  } else {
-    basePath = path.join(__dirname, '../kline/spot');
+  for (const csvFile of csvFiles) {
+    await backtester.loadData(csvFile);
   }
+  await backtester.prepareData();
 
-  const klineDir = path.join(
-    basePath,
-    symbol,
-    timeframe,
-    'csv'
-  );
-
-  const files = await fs.promises.readdir(klineDir);
+  await backtester.findThresholds();
+  console.log(' Backtest complete');
+}
 
-  // Filter files based on date range
-  const startDate = new Date(
-    config.dataFetch.startDate.year,
-    config.dataFetch.startDate.month - 1
+export async function runBatchBacktest(
+  runConfig: TradingConfig = config,
+  symbols: readonly string[] = AVAILABLE_SYMBOLS,
+  timeframes: readonly string[] = AVAILABLE_TIMEFRAMES
+): Promise<string[]> {
+  const batchProcessing = runConfig.backtestMode.batchProcessing;
+  const processor = new BatchProcessor(
+    batchProcessing?.parallel ?? false,
+    batchProcessing?.concurrencyLimit || 5,
+    runConfig,
+    symbols,
+    timeframes
   );
-  const endDate = config.dataFetch.endDate 
-    ? new Date(
-        config.dataFetch.endDate.year,
-        config.dataFetch.endDate.month - 1
-      )
-    : new Date();
-
-  return files
-    .filter((file) => {
-      // Extract date from filename (e.g., ETHUSDT-1m-2024-01.csv)
-      const match = file.match(/\d{4}-\d{2}/);
-      if (!match) return false;
-      
-      const [year, month] = match[0].split('-').map(Number);
-      const fileDate = new Date(year, month - 1);
-      
-      return fileDate >= startDate && fileDate <= endDate;
-    })
-    .filter((file) => file.endsWith('.csv'))
-    .sort()
-    .map((file) => path.join(klineDir, file));
+  await processor.processAll();
+  return processor.getFailures();
 }
 
-async function processSymbol(symbol: string, timeframe: string, symbolInfo: any) {
-  try {
-    console.log(`\nProcessing ${symbol} on ${timeframe} timeframe`);
-    console.log(`Price precision: ${symbolInfo.pricePrecision} decimals`);
-    
-    // First: Download data
-    console.log('\n=== Starting Data Download Phase ===');
-    const dataFetcher = new DataFetcher(symbol, {
-      ...config,
-      singleBacktest: {
-        symbol,
-        timeframe
-      }
-    });
-    await dataFetcher.fetchHistoricalData();
-    console.log(' Data download complete');
-
-    // Second: Run backtest
-    console.log('\n=== Starting Backtest Phase ===');
-    const backtester = new Backtester(symbol, {
-      ...config,
-      singleBacktest: {
-        symbol,
-        timeframe
-      }
-    });
-
-    // Set symbol info before processing
-    backtester.setSymbolInfo(symbolInfo);
-
-    const csvFiles = await getAllCsvFiles(symbol, timeframe);
-    console.log(`Loading ${csvFiles.length} CSV files...`);
-    
-    for (const csvFile of csvFiles) {
-      await backtester.loadData(csvFile);
-    }
-
-    await backtester.findThresholds();
-    console.log(' Backtest complete');
-  } catch (error) {
-    console.error(`Error processing ${symbol} - ${timeframe}:`, error);
-  }
+export async function runSingleBacktest(runConfig: TradingConfig = config) {
+  const { symbol, timeframe } = runConfig.singleBacktest;
+  
+  // Fetch symbol info first
+  const symbolInfo = await createCandleSource(runConfig).fetchSymbolInfo(symbol);
+  
+  await processSymbol(symbol, timeframe, symbolInfo, runConfig);
 }
 
-async function runBatchBacktest() {
-  const symbols = AVAILABLE_SYMBOLS;
-  const timeframes = AVAILABLE_TIMEFRAMES;
+// Downloads and loads the single-backtest candles once so that every
+// parameter combination can reuse them in memory
+async function loadSingleBacktestCandles(runConfig: TradingConfig) {
+  const { symbol, timeframe } = runConfig.singleBacktest;
 
-  console.log(`Starting batch backtest for:`);
-  console.log(`Symbols: ${symbols.join(', ')}`);
-  console.log(`Timeframes: ${timeframes.join(', ')}`);
-  console.log(`Total combinations: ${symbols.length * timeframes.length}`);
+  const candleSource = createCandleSource(runConfig);
+  const symbolInfo = await candleSource.fetchSymbolInfo(symbol);
+  await candleSource.fetchHistoricalData(symbol, timeframe);
 
-  // First fetch all symbol info
-  const dataFetcher = new DataFetcher('BTCUSDT'); // Temporary symbol just to instantiate
-  const symbolInfoMap = new Map<string, SymbolInfo>();
-  
-  console.log('\nFetching symbol information...');
-  for (const symbol of symbols) {
-    try {
-      const info = await dataFetcher.fetchSymbolInfo(symbol);
-      symbolInfoMap.set(symbol, info);
-      console.log(`${symbol}: ${info.pricePrecision} decimals`);
-    } catch (error) {
-      console.error(`Failed to fetch info for ${symbol}:`, error);
-      // Skip this symbol
-      continue;
-    }
+  const backtester = new Backtester(symbol, runConfig);
+  const csvFiles = await candleSource.listFiles(symbol, timeframe);
+  console.log(`Loading ${csvFiles.length} CSV files...`);
+  for (const csvFile of csvFiles) {
+    await backtester.loadData(csvFile);
   }
+  await backtester.prepareData();
 
-  if (config.backtestMode.batchProcessing?.parallel) {
-    const concurrencyLimit = config.backtestMode.batchProcessing.concurrencyLimit || 5;
-    const queue = [];
-
-    for (const symbol of symbols) {
-      const symbolInfo = symbolInfoMap.get(symbol);
-      if (!symbolInfo) continue; // Skip if we couldn't get symbol info
-      
-      for (const timeframe of timeframes) {
-        queue.push({ symbol, timeframe, symbolInfo });
-      }
-    }
-
-    console.log(`Processing in parallel with concurrency limit of ${concurrencyLimit}`);
-
-    // Process in parallel with concurrency limit
-    while (queue.length > 0) {
-      const batch = queue.splice(0, concurrencyLimit);
-      await Promise.all(batch.map(({ symbol, timeframe, symbolInfo }) => 
-        processSymbol(symbol, timeframe, symbolInfo)
-      ));
-      console.log(`Remaining combinations: ${queue.length}`);
-    }
-  } else {
-    // Process sequentially
-    let processed = 0;
-    const total = symbols.length * timeframes.length;
-
-    for (const symbol of symbols) {
-      const symbolInfo = symbolInfoMap.get(symbol);
-      if (!symbolInfo) continue; // Skip if we couldn't get symbol info
-      
-      for (const timeframe of timeframes) {
-        await processSymbol(symbol, timeframe, symbolInfo);
-        processed++;
-        console.log(`Progress: ${processed}/${total} combinations completed`);
-      }
-    }
-  }
+  return { symbol, symbolInfo, candles: backtester.getCandles() };
+}
 
-  console.log('\nBatch processing complete!');
+export async function runOptimization(runConfig: TradingConfig = config) {
+  const { symbol, symbolInfo, candles } = await loadSingleBacktestCandles(runConfig);
+  const optimizer = new GridOptimizer(symbol, runConfig);
+  await optimizer.run(candles, symbolInfo);
 }
 
-async function runSingleBacktest() {
-  const { symbol, timeframe } = config.singleBacktest;
-  
-  // Fetch symbol info first
-  const dataFetcher = new DataFetcher(symbol);
-  const symbolInfo = await dataFetcher.fetchSymbolInfo(symbol);
-  
-  await processSymbol(symbol, timeframe, symbolInfo);
+export async function runWalkForward(runConfig: TradingConfig = config) {
+  const { symbol, symbolInfo, candles } = await loadSingleBacktestCandles(runConfig);
+  const analyzer = new WalkForwardAnalyzer(symbol, runConfig);
+  await analyzer.run(candles, symbolInfo);
 }
 
 async function main() {
   try {
     if (config.backtestMode.type === 'batch') {
-      await runBatchBacktest();
+      const failures = await runBatchBacktest();
+      if (failures.length > 0) {
+        console.error(`Failed combinations: ${failures.join(', ')}`);
+        process.exit(1);
+      }
+    } else if (config.backtestMode.type === 'optimize') {
+      await runOptimization();
+    } else if (config.backtestMode.type === 'walkForward') {
+      await runWalkForward();
     } else {
       await runSingleBacktest();
     }
@@ -190,4 +125,7 @@ async function main() {
   }
 }
 
-main();
\ No newline at end of file
+// The CLI imports the runners above without starting a config-driven run
+if (require.main === module) {
+  main();
+}
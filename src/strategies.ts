@@ -0,0 +1,173 @@
+import path from 'path';
+import { CostModel } from './cost-model';
+import { registerDefaultStrategies } from './default-strategy';
+import {
+  CandleData,
+  CandleDetails,
+  Entry,
+  Exit,
+  HedgeCycle,
+  AmbiguousEntry,
+  EffectiveStrategyParameters,
+  TradingConfig,
+} from './interfaces';
+
+// Everything a strategy plugin may read while the engine runs a backtest
+export interface StrategyContext {
+  symbol: string;
+  runConfig: TradingConfig;
+  candles: CandleData[];
+  parameters: EffectiveStrategyParameters;
+  costModel: CostModel;
+  formatPrice(price: number | string): string;
+  formatTime(timestamp: number): string;
+  formatCandleDetails(candle: CandleData): CandleDetails;
+}
+
+export interface LegendSignal {
+  // Percent distance of the entry thresholds from the legend close
+  dynamicThreshold: number;
+  volatility: number;
+  volatilityMeasure: string;
+}
+
+export interface LegendDetector {
+  // Called once before the scan; returns the first candle index to inspect
+  prepare(context: StrategyContext): number;
+  // Called for every candle from that index on, in order
+  detect(index: number, context: StrategyContext): LegendSignal | null;
+}
+
+export interface EntryLevels {
+  upwardThreshold: number;
+  downwardThreshold: number;
+  dynamicThreshold: number;
+}
+
+export interface EntrySignal {
+  entry?: Entry;
+  // Candle index of the entry, -1 when no entry was taken
+  entryIndex: number;
+  ambiguous?: AmbiguousEntry;
+}
+
+export interface EntryRule {
+  getLevels(legendIndex: number, signal: LegendSignal, context: StrategyContext): EntryLevels;
+  findEntry(legendIndex: number, levels: EntryLevels, context: StrategyContext): Promise<EntrySignal>;
+}
+
+// A closed position; trades without an exit or hedge are left open
+export interface TradeOutcome {
+  exit?: Exit;
+  hedge?: HedgeCycle;
+  // Candle index on which the position was closed
+  exitIndex: number;
+}
+
+export interface ExitRule {
+  simulate(
+    entryIndex: number,
+    entry: Entry,
+    levels: EntryLevels,
+    context: StrategyContext
+  ): TradeOutcome | undefined;
+}
+
+export interface Strategy {
+  legendDetector: LegendDetector;
+  entryRule: EntryRule;
+  exitRule: ExitRule;
+}
+
+type StrategyFactory<T> = () => T;
+
+// Named factories for each plugin kind. Factories are called once per
+// backtest, so plugins may keep state between calls.
+export class StrategyRegistry {
+  private legendDetectors = new Map<string, StrategyFactory<LegendDetector>>();
+  private entryRules = new Map<string, StrategyFactory<EntryRule>>();
+  private exitRules = new Map<string, StrategyFactory<ExitRule>>();
+
+  public registerLegendDetector(name: string, factory: StrategyFactory<LegendDetector>): void {
+    this.legendDetectors.set(name, factory);
+  }
+
+  public registerEntryRule(name: string, factory: StrategyFactory<EntryRule>): void {
+    this.entryRules.set(name, factory);
+  }
+
+  public registerExitRule(name: string, factory: StrategyFactory<ExitRule>): void {
+    this.exitRules.set(name, factory);
+  }
+
+  public createLegendDetector(name: string): LegendDetector {
+    return this.create(this.legendDetectors, 'legend detector', name);
+  }
+
+  public createEntryRule(name: string): EntryRule {
+    return this.create(this.entryRules, 'entry rule', name);
+  }
+
+  public createExitRule(name: string): ExitRule {
+    return this.create(this.exitRules, 'exit rule', name);
+  }
+
+  private create<T>(factories: Map<string, StrategyFactory<T>>, kind: string, name: string): T {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(
+        `Unknown ${kind}: ${name}. Available: ${[...factories.keys()].join(', ')}`
+      );
+    }
+    return factory();
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+registerDefaultStrategies(strategyRegistry);
+
+const loadedModules = new Set<string>();
+
+// Loads a custom strategy module once. The module must export
+// `register(registry: StrategyRegistry)`, which adds its plugins by name.
+export function loadStrategyModule(modulePath: string): void {
+  const resolvedPath = path.resolve(modulePath);
+  if (loadedModules.has(resolvedPath)) {
+    return;
+  }
+
+  const strategyModule = require(resolvedPath);
+  if (typeof strategyModule.register !== 'function') {
+    throw new Error(`Strategy module ${resolvedPath} does not export a register function`);
+  }
+  strategyModule.register(strategyRegistry);
+  loadedModules.add(resolvedPath);
+}
+
+// Names of the plugins selected by strategy.plugins. Without an explicit exit
+// rule, hedging selects the zone-recovery cycle and anything else the
+// take-profit/stop-loss exit.
+export function resolvePluginNames(
+  runConfig: TradingConfig
+): { legendDetector: string; entryRule: string; exitRule: string } {
+  const plugins = runConfig.strategy.plugins ?? {};
+  return {
+    legendDetector: plugins.legendDetector ?? 'volatilityBreakout',
+    entryRule: plugins.entryRule ?? 'thresholdBreakout',
+    exitRule: plugins.exitRule ?? (runConfig.trade.hedging?.enabled ? 'zoneRecovery' : 'targetStop'),
+  };
+}
+
+export function createStrategy(runConfig: TradingConfig): Strategy {
+  const modulePath = runConfig.strategy.plugins?.modulePath;
+  if (modulePath) {
+    loadStrategyModule(modulePath);
+  }
+
+  const names = resolvePluginNames(runConfig);
+  return {
+    legendDetector: strategyRegistry.createLegendDetector(names.legendDetector),
+    entryRule: strategyRegistry.createEntryRule(names.entryRule),
+    exitRule: strategyRegistry.createExitRule(names.exitRule),
+  };
+}
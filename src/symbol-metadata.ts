@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { getMarketKey } from './config';
+import { RawSymbolInfo, SymbolInfo, TradingConfig } from './interfaces';
+
+// exchangeInfo symbols of one market as last fetched from the exchange
+interface CachedExchangeInfo {
+  market: 'spot' | 'um' | 'cm';
+  fetchedAt: string;
+  symbols: RawSymbolInfo[];
+}
+
+// Decimals of a step or tick size, e.g. 3 for "0.00100000" and 2 for "0.25"
+export function countDecimals(value: string): number {
+  const [mantissa, exponent = '0'] = value.trim().toLowerCase().split('e');
+  const fraction = (mantissa.split('.')[1] ?? '').replace(/0+$/, '');
+  return Math.max(0, fraction.length - Number(exponent));
+}
+
+// Converts an exchangeInfo symbol into the precision and order limits used by
+// the backtester
+export function toSymbolInfo(symbolData: RawSymbolInfo): SymbolInfo {
+  // Find price filter for precision
+  const priceFilter = symbolData.filters.find(
+    (f) => f.filterType === 'PRICE_FILTER'
+  );
+  const lotSizeFilter = symbolData.filters.find(
+    (f) => f.filterType === 'LOT_SIZE'
+  );
+  // Spot reports NOTIONAL/minNotional, futures MIN_NOTIONAL/notional
+  const notionalFilter = symbolData.filters.find(
+    (f) => f.filterType === 'NOTIONAL' || f.filterType === 'MIN_NOTIONAL'
+  );
+  const minNotional = notionalFilter?.minNotional ?? notionalFilter?.notional;
+
+  // Calculate precision from tickSize (e.g., "0.00001000" has 8 decimals)
+  const pricePrecision = priceFilter?.tickSize
+    ? -Math.log10(parseFloat(priceFilter.tickSize))
+    : symbolData.quotePrecision;
+
+  const quantityPrecision = lotSizeFilter?.stepSize
+    ? countDecimals(lotSizeFilter.stepSize)
+    : symbolData.baseAssetPrecision;
+
+  return {
+    symbol: symbolData.symbol,
+    baseAsset: symbolData.baseAsset,
+    quoteAsset: symbolData.quoteAsset,
+    baseAssetPrecision: symbolData.baseAssetPrecision,
+    quotePrecision: symbolData.quotePrecision,
+    pricePrecision: Math.max(0, Math.floor(pricePrecision)),
+    quantityPrecision,
+    stepSize: lotSizeFilter?.stepSize ? parseFloat(lotSizeFilter.stepSize) : undefined,
+    minQty: lotSizeFilter?.minQty ? parseFloat(lotSizeFilter.minQty) : undefined,
+    minNotional: minNotional ? parseFloat(minNotional) : undefined
+  };
+}
+
+// Keeps the exchangeInfo of each market (spot, um, cm) on disk so symbol
+// metadata is available without network access
+export class SymbolMetadataCache {
+  private market: 'spot' | 'um' | 'cm';
+
+  constructor(private runConfig: TradingConfig) {
+    this.market = getMarketKey(runConfig);
+  }
+
+  private getCachePath(): string {
+    return path.join(__dirname, '../cache/exchange-info', `${this.market}.json`);
+  }
+
+  public read(): CachedExchangeInfo | undefined {
+    const cachePath = this.getCachePath();
+    if (!fs.existsSync(cachePath)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(cachePath, 'utf8')) as CachedExchangeInfo;
+    } catch (error) {
+      console.error(`Ignoring unreadable symbol metadata cache ${cachePath}:`, error);
+      return undefined;
+    }
+  }
+
+  public write(symbols: RawSymbolInfo[]): void {
+    const cachePath = this.getCachePath();
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+
+    // Only the fields the backtester reads, which keeps the spot file small
+    const cached: CachedExchangeInfo = {
+      market: this.market,
+      fetchedAt: new Date().toISOString(),
+      symbols: symbols.map((s) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        baseAssetPrecision: s.baseAssetPrecision,
+        quotePrecision: s.quotePrecision,
+        filters: s.filters.filter((f) =>
+          ['PRICE_FILTER', 'LOT_SIZE', 'NOTIONAL', 'MIN_NOTIONAL'].includes(f.filterType)
+        ),
+      })),
+    };
+
+    // Write then rename so an interrupted run never leaves a truncated cache
+    const tempPath = `${cachePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(cached));
+    fs.renameSync(tempPath, cachePath);
+  }
+
+  public isFresh(cached: CachedExchangeInfo): boolean {
+    const maxAgeHours = this.runConfig.symbolMetadata?.cacheMaxAgeHours ?? 24;
+    const ageMs = Date.now() - new Date(cached.fetchedAt).getTime();
+    return ageMs <= maxAgeHours * 60 * 60 * 1000;
+  }
+
+  public find(cached: CachedExchangeInfo, symbol: string): SymbolInfo | undefined {
+    const symbolData = cached.symbols.find((s) => s.symbol === symbol);
+    return symbolData ? toSymbolInfo(symbolData) : undefined;
+  }
+}
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const REQUIRED_STRING_FIELDS = ['baseAsset', 'quoteAsset'] as const;
+const REQUIRED_NUMBER_FIELDS = ['pricePrecision', 'quantityPrecision'] as const;
+const OPTIONAL_NUMBER_FIELDS = [
+  'baseAssetPrecision',
+  'quotePrecision',
+  'stepSize',
+  'minQty',
+  'minNotional',
+] as const;
+
+// Reads the hand-written metadata file set in symbolMetadata.file, keyed by
+// symbol. Entries need the assets and precisions; the remaining fields are
+// optional.
+export function readSymbolMetadataFile(filePath: string): Map<string, SymbolInfo> {
+  const contents: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!isPlainObject(contents)) {
+    throw new Error(`${filePath}: expected an object keyed by symbol`);
+  }
+  const symbols = new Map<string, SymbolInfo>();
+
+  for (const [symbol, entry] of Object.entries(contents)) {
+    if (!isPlainObject(entry)) {
+      throw new Error(`${filePath}: ${symbol} must be an object`);
+    }
+    const missing = [...REQUIRED_STRING_FIELDS, ...REQUIRED_NUMBER_FIELDS].filter(
+      (field) => entry[field] === undefined
+    );
+    if (missing.length > 0) {
+      throw new Error(`${filePath}: ${symbol} is missing ${missing.join(', ')}`);
+    }
+    const invalid = [
+      ...REQUIRED_STRING_FIELDS.filter((field) => typeof entry[field] !== 'string'),
+      ...[...REQUIRED_NUMBER_FIELDS, ...OPTIONAL_NUMBER_FIELDS].filter(
+        (field) => entry[field] !== undefined && typeof entry[field] !== 'number'
+      ),
+    ];
+    if (invalid.length > 0) {
+      throw new Error(`${filePath}: ${symbol} has invalid ${invalid.join(', ')}; assets are strings, the rest numbers`);
+    }
+
+    const optionalNumber = (field: (typeof OPTIONAL_NUMBER_FIELDS)[number]) =>
+      entry[field] as number | undefined;
+    symbols.set(symbol, {
+      symbol,
+      baseAsset: entry.baseAsset as string,
+      quoteAsset: entry.quoteAsset as string,
+      baseAssetPrecision: optionalNumber('baseAssetPrecision') ?? 8,
+      quotePrecision: optionalNumber('quotePrecision') ?? 8,
+      pricePrecision: entry.pricePrecision as number,
+      quantityPrecision: entry.quantityPrecision as number,
+      stepSize: optionalNumber('stepSize'),
+      minQty: optionalNumber('minQty'),
+      minNotional: optionalNumber('minNotional'),
+    });
+  }
+
+  return symbols;
+}
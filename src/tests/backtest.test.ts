@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { Backtester } from '../backtest';
+import defaultConfig from '../config';
+import { BacktestResult, CandleData, SizingConfig, SymbolInfo, TradingConfig } from '../interfaces';
+import { makeCandle, MINUTE_MS } from './helpers';
+
+const START = Date.UTC(2024, 8, 2);
+
+// Two legend candles after quiet stretches with 0.1% bodies: a 2% rise
+// whose long entry takes profit on the next candle, and a 2% fall whose
+// short entry is stopped out on the next candle
+const PRICES: [number, number, number, number][] = [
+  ...Array<[number, number, number, number]>(5).fill([100, 100.2, 99.9, 100.1]),
+  [100, 102.1, 99.95, 102],
+  [102, 102.6, 101.9, 102.1],
+  [102.1, 103.6, 102, 102.2],
+  ...Array<[number, number, number, number]>(5).fill([102.2, 102.4, 102.1, 102.3]),
+  [102.3, 102.35, 100.25, 100.3],
+  [100.3, 100.4, 99.7, 100.2],
+  [100.2, 101, 100.1, 100.9],
+];
+
+function makeCandles(): CandleData[] {
+  return PRICES.map(([open, high, low, close], i) => makeCandle(START + i * MINUTE_MS, { open, high, low, close }));
+}
+
+function makeRunConfig(sizing: Partial<SizingConfig> = {}): TradingConfig {
+  return {
+    ...defaultConfig,
+    trade: {
+      ...defaultConfig.trade,
+      exit: {
+        takeProfit: { type: 'percent', value: 1 },
+        stopLoss: { type: 'percent', value: 1 },
+        maxHoldingCandles: 100,
+      },
+    },
+    strategy: { ...defaultConfig.strategy, lookback: { candles: 5 }, entryBandMultiple: 5 },
+    costs: undefined,
+    account: {
+      initialBalance: 10000,
+      sizing: { method: 'fixedFraction', value: 10, maxLeverage: 1, ...sizing },
+    },
+    monteCarlo: undefined,
+  };
+}
+
+function makeSymbolInfo(overrides: Partial<SymbolInfo> = {}): SymbolInfo {
+  return {
+    symbol: 'ETHUSDT',
+    baseAsset: 'ETH',
+    quoteAsset: 'USDT',
+    baseAssetPrecision: 8,
+    quotePrecision: 8,
+    pricePrecision: 2,
+    quantityPrecision: 3,
+    stepSize: 0.001,
+    ...overrides,
+  };
+}
+
+async function runBacktest(runConfig: TradingConfig, symbolInfo: SymbolInfo = makeSymbolInfo()) {
+  const backtester = new Backtester('ETHUSDT', runConfig);
+  backtester.setSymbolInfo(symbolInfo);
+  backtester.setCandles(makeCandles(), backtester.getWarmupCandles());
+  const results = await backtester.findThresholds({ saveResults: false, quiet: true });
+  return { backtester, results };
+}
+
+describe('Backtester account', () => {
+  it('sizes each trade from the balance realised before it', async () => {
+    const { backtester, results } = await runBacktest(makeRunConfig());
+
+    assert.deepEqual(
+      results.map((result) => [result.entry?.side, result.exit?.reason]),
+      [
+        ['LONG', 'TakeProfitHit'],
+        ['SHORT', 'StopLossHit'],
+      ]
+    );
+
+    let balance = 10000;
+    for (const { entry, exit, position } of results) {
+      assert.ok(entry && exit && position && !position.rejectedReason);
+      // 10% of the balance, floored to the 0.001 step size
+      assert.equal(position.quantity, Math.floor((balance * 0.1) / entry.price / 0.001) / 1000);
+      assert.equal(position.notional, position.quantity * entry.price);
+      assert.equal(position.pnl, position.notional * (exit.pnlPercent / 100));
+      balance += position.pnl;
+      assert.equal(position.balanceAfter, balance);
+    }
+
+    const stats = backtester.getStats();
+    assert.equal(stats.initialBalance, 10000);
+    assert.equal(stats.finalBalance, balance);
+    assert.equal(stats.rejectedOrders, 0);
+  });
+
+  it('records the balance after every closed trade in the equity curve', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-test-'));
+    try {
+      const runConfig = { ...makeRunConfig(), output: { directory } };
+      const backtester = new Backtester('ETHUSDT', runConfig);
+      backtester.setSymbolInfo(makeSymbolInfo());
+      backtester.setCandles(makeCandles());
+      const results = await backtester.findThresholds({ quiet: true });
+
+      const saved: BacktestResult = JSON.parse(
+        fs.readFileSync(path.join(directory, 'ETHUSDT', '1m_results.json'), 'utf8')
+      );
+      assert.deepEqual(
+        saved.equityCurve?.map((point) => point.balance),
+        [10000, ...results.map((result) => result.position!.balanceAfter)]
+      );
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('caps the position at maxLeverage times the balance', async () => {
+    const { results } = await runBacktest(makeRunConfig({ method: 'fixedNotional', value: 50000, maxLeverage: 2 }));
+    const { entry, position } = results[0];
+
+    assert.equal(position?.quantity, Math.floor(20000 / entry!.price / 0.001) / 1000);
+  });
+
+  it('rejects orders below the exchange minimum and leaves the balance untouched', async () => {
+    const { backtester, results } = await runBacktest(makeRunConfig(), makeSymbolInfo({ minNotional: 5000 }));
+
+    for (const { position } of results) {
+      assert.match(position?.rejectedReason ?? '', /^Notional \d+\.\d{2} below minimum 5000$/);
+      assert.equal(position?.balanceAfter, 10000);
+    }
+    const stats = backtester.getStats();
+    assert.equal(stats.finalBalance, 10000);
+    assert.equal(stats.rejectedOrders, 2);
+  });
+
+  it('leaves positions unsized without an account', async () => {
+    const { backtester, results } = await runBacktest({ ...makeRunConfig(), account: undefined });
+
+    assert.equal(results.length, 2);
+    assert.ok(results.every((result) => result.position === undefined));
+    assert.equal(backtester.getStats().finalBalance, undefined);
+  });
+});
+
+describe('Backtester metrics', () => {
+  it('reports the closed trades and the time spent in them', async () => {
+    const { backtester, results } = await runBacktest(makeRunConfig());
+    const metrics = backtester.getMetrics();
+
+    assert.deepEqual(
+      backtester.getTradeRecords().map((trade) => [trade.side, trade.pnlPercent]),
+      results.map((result) => [result.entry!.side, result.exit!.pnlPercent])
+    );
+    // Two trades of two candles each out of the 11 candles after the warmup
+    assert.equal(backtester.getExposedCandles(), 4);
+    assert.equal(metrics.exposureTime, (4 / 11) * 100);
+    assert.equal(metrics.bySide.LONG.trades, 1);
+    assert.equal(metrics.bySide.SHORT.trades, 1);
+    assert.equal(metrics.longestLossStreak, 1);
+  });
+});
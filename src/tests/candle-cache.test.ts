@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { getCandleCachePath, readAllCandles } from '../candle-cache';
+import { readCandlesFromCsv } from '../candle-loader';
+import { CsvCandleSource } from '../candle-sources';
+import defaultConfig from '../config';
+
+const CSV_ROWS = [
+  '1704067200000,100.1,101.25,99.5,100.75,12.5,1704067259999,1259.375,42,6.25,629.6875,0',
+  '1704067260000,100.75,102,100,101.5,0.001,1704067319999,0.1015,1,0,0,0',
+  '1704067320000,101.5,101.5,101.5,101.5,0,1704067379999,0,0,0,0,0',
+];
+
+describe('readAllCandles', () => {
+  let directory: string;
+  let csvPath: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'candle-cache-test-'));
+    csvPath = path.join(directory, 'ETHUSDT-1m-2024-01.csv');
+    fs.writeFileSync(csvPath, `${CSV_ROWS.join('\n')}\n`);
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('builds a cache that decodes to the parsed candles', async () => {
+    const parsed = await readCandlesFromCsv(csvPath, 0, Number.MAX_SAFE_INTEGER);
+    const built = await readAllCandles(csvPath);
+    assert.ok(fs.existsSync(getCandleCachePath(csvPath)));
+
+    const cached = await readAllCandles(csvPath);
+    assert.deepEqual(built, parsed);
+    assert.deepEqual(cached, parsed);
+  });
+
+  it('rebuilds the cache when the CSV changes', async () => {
+    fs.appendFileSync(csvPath, '1704067380000,101.5,103,101,102.5,3,1704067439999,307.5,7,1,102.5,0\n');
+    const candles = await readAllCandles(csvPath);
+
+    assert.equal(candles.length, CSV_ROWS.length + 1);
+    assert.equal(candles[candles.length - 1].close, 102.5);
+  });
+
+  it('rebuilds the cache for a source with other parse settings', async () => {
+    const source = new CsvCandleSource(
+      { ...defaultConfig, market: { ...defaultConfig.market, source: 'csv', directory } },
+      {
+        hasHeader: false,
+        columns: { openTime: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 },
+      }
+    );
+    const candles = await readAllCandles(csvPath, source);
+
+    assert.equal(candles.length, CSV_ROWS.length + 1);
+    assert.equal(candles[0].quoteAssetVolume, 0);
+    assert.equal(candles[0].closeTime, 1704067259999);
+  });
+});
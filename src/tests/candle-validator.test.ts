@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { repairCandles, validateCandles } from '../candle-validator';
+import { makeCandle, makeMinuteCandles, MINUTE_MS } from './helpers';
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('validateCandles', () => {
+  it('passes clean candles', () => {
+    const report = validateCandles(makeMinuteCandles(START, 10), 'ETHUSDT', '1m', 'warn');
+
+    assert.equal(report.passed, true);
+    assert.equal(report.candles, 10);
+    assert.deepEqual(report.gaps, []);
+  });
+
+  it('counts duplicates, out-of-order candles and price anomalies', () => {
+    const candles = [
+      makeCandle(START),
+      makeCandle(START + 2 * MINUTE_MS),
+      makeCandle(START + MINUTE_MS),
+      makeCandle(START + MINUTE_MS),
+      makeCandle(START + 3 * MINUTE_MS, { low: 0 }),
+      makeCandle(START + 4 * MINUTE_MS, { high: 98 }),
+    ];
+    const report = validateCandles(candles, 'ETHUSDT', '1m', 'warn');
+
+    assert.equal(report.passed, false);
+    assert.equal(report.duplicates, 1);
+    assert.equal(report.outOfOrder, 1);
+    assert.equal(report.invalidPrices, 1);
+    assert.equal(report.highBelowLow, 1);
+    assert.deepEqual(report.gaps, []);
+  });
+
+  it('reports gaps with the number of missing candles', () => {
+    const candles = [...makeMinuteCandles(START, 2), ...makeMinuteCandles(START + 5 * MINUTE_MS, 2)];
+    const report = validateCandles(candles, 'ETHUSDT', '1m', 'fail');
+
+    assert.equal(report.passed, false);
+    assert.deepEqual(report.gaps, [
+      { from: START + MINUTE_MS, to: START + 5 * MINUTE_MS, missingCandles: 3 },
+    ]);
+    assert.equal(report.missingCandles, 3);
+  });
+});
+
+describe('repairCandles', () => {
+  it('drops invalid candles and duplicates and sorts by open time', () => {
+    const first = makeCandle(START + MINUTE_MS);
+    const candles = [
+      makeCandle(START + 2 * MINUTE_MS),
+      first,
+      makeCandle(START + MINUTE_MS, { close: 1 }),
+      makeCandle(START, { open: NaN }),
+    ];
+    const repaired = repairCandles(candles);
+
+    assert.deepEqual(
+      repaired.map((candle) => candle.openTime),
+      [START + MINUTE_MS, START + 2 * MINUTE_MS]
+    );
+    assert.equal(repaired[0], first);
+  });
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { ConfigValidationError, deepMerge, loadConfigFile } from '../config-loader';
+import defaultConfig from '../config';
+
+describe('deepMerge', () => {
+  it('merges objects key by key', () => {
+    assert.deepEqual(deepMerge({ a: { b: 1, c: 2 }, d: 3 }, { a: { c: 4 } }), { a: { b: 1, c: 4 }, d: 3 });
+  });
+
+  it('replaces arrays and scalars', () => {
+    assert.deepEqual(deepMerge({ list: [1, 2, 3], value: 'a' }, { list: [4], value: 'b' }), {
+      list: [4],
+      value: 'b',
+    });
+  });
+
+  it('removes keys set to null', () => {
+    assert.deepEqual(deepMerge({ a: 1, b: { c: 2, d: 3 } }, { a: null, b: { d: null } }), { b: { c: 2 } });
+  });
+
+  it('keeps the base for an undefined override and leaves both inputs unchanged', () => {
+    const base = { a: { b: 1 } };
+    const override = { a: { c: 2 } };
+    assert.equal(deepMerge(base, undefined), base);
+    deepMerge(base, override);
+    assert.deepEqual(base, { a: { b: 1 } });
+    assert.deepEqual(override, { a: { c: 2 } });
+  });
+});
+
+describe('loadConfigFile', () => {
+  let directory: string;
+
+  const writeConfig = (name: string, contents: string): string => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  const validationErrors = (load: () => unknown): string[] => {
+    try {
+      load();
+    } catch (error) {
+      assert.ok(error instanceof ConfigValidationError);
+      return error.errors;
+    }
+    assert.fail('expected a ConfigValidationError');
+  };
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-loader-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('merges the shared layer and the selected profile over the defaults', () => {
+    const filePath = writeConfig(
+      'config.yaml',
+      [
+        'singleBacktest: { symbol: BTCUSDT }',
+        'profiles:',
+        '  hourly:',
+        '    singleBacktest: { timeframe: 1h }',
+      ].join('\n')
+    );
+
+    const shared = loadConfigFile(filePath);
+    assert.equal(shared.singleBacktest.symbol, 'BTCUSDT');
+    assert.equal(shared.singleBacktest.timeframe, defaultConfig.singleBacktest.timeframe);
+
+    const hourly = loadConfigFile(filePath, 'hourly');
+    assert.equal(hourly.singleBacktest.symbol, 'BTCUSDT');
+    assert.equal(hourly.singleBacktest.timeframe, '1h');
+  });
+
+  it('drops the futures subType once the market is spot', () => {
+    const filePath = writeConfig('spot.json', JSON.stringify({ market: { type: 'spot' } }));
+    assert.equal(loadConfigFile(filePath).market.subType, undefined);
+  });
+
+  it('reports every invalid value with its path', () => {
+    const filePath = writeConfig(
+      'invalid.json',
+      JSON.stringify({
+        unknownSection: true,
+        profiles: { broken: { market: { type: 'options' } } },
+      })
+    );
+    const errors = validationErrors(() => loadConfigFile(filePath));
+
+    assert.ok(errors.some((error) => error.startsWith('unknownSection')));
+    assert.ok(errors.some((error) => error.startsWith('profiles.broken.market.type')));
+  });
+
+  it('rejects timeframes the backtester cannot parse', () => {
+    const filePath = writeConfig('timeframe.json', JSON.stringify({ singleBacktest: { timeframe: 'forever' } }));
+    const errors = validationErrors(() => loadConfigFile(filePath));
+
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^singleBacktest\.timeframe/);
+  });
+
+  it('reports a missing profile with the available ones', () => {
+    const filePath = writeConfig('profiles.yaml', 'profiles:\n  fast: {}\n');
+    assert.deepEqual(
+      validationErrors(() => loadConfigFile(filePath, 'slow')),
+      ['profile "slow" not found, available: fast']
+    );
+  });
+
+  it('rejects unparsable files and unsupported extensions', () => {
+    assert.equal(validationErrors(() => loadConfigFile(writeConfig('broken.json', '{'))).length, 1);
+    assert.match(
+      validationErrors(() => loadConfigFile(writeConfig('config.toml', '')))[0],
+      /unsupported extension/
+    );
+  });
+});
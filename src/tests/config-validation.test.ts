@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import defaultConfig from '../config';
+import { findUnusedConfig } from '../config-validation';
+import { TradingConfig } from '../interfaces';
+
+function withTimeframe(runConfig: TradingConfig, timeframe: string): TradingConfig {
+  return { ...runConfig, singleBacktest: { ...runConfig.singleBacktest, timeframe } };
+}
+
+function withLookback(lookback: TradingConfig['strategy']['lookback']): TradingConfig {
+  return { ...defaultConfig, strategy: { ...defaultConfig.strategy, lookback } };
+}
+
+describe('findUnusedConfig', () => {
+  it('has no warnings for the default config on any archive timeframe', () => {
+    for (const timeframe of ['1m', '5m', '1h', '1d']) {
+      assert.deepEqual(findUnusedConfig(withTimeframe(defaultConfig, timeframe)), [], timeframe);
+    }
+  });
+
+  it('warns when an override shadows a changed candles value', () => {
+    const warnings = findUnusedConfig(withLookback({ ...defaultConfig.strategy.lookback, candles: 50 }));
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /candles \(50\) is shadowed by strategy\.lookback\.timeframeOverrides\.1m \(200\)/);
+
+    assert.deepEqual(findUnusedConfig(withLookback({ candles: 50 })), []);
+  });
+
+  it('warns about a resolution timeframe that is not below the backtest timeframe', () => {
+    const runConfig = withTimeframe(
+      { ...defaultConfig, trade: { ...defaultConfig.trade, ambiguousCandles: { policy: 'optimistic', resolutionTimeframe: '1h' } } },
+      '1h'
+    );
+    assert.deepEqual(findUnusedConfig(runConfig), [
+      'trade.ambiguousCandles.resolutionTimeframe (1h) is not below the backtest timeframe (1h); the optimistic policy decides ambiguous candles',
+    ]);
+  });
+});
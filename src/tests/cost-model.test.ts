@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import defaultConfig from '../config';
+import { CostModel } from '../cost-model';
+import { CostConfig, TradingConfig } from '../interfaces';
+import { makeCandle, makeMinuteCandles, MINUTE_MS } from './helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeModel(costs: Partial<CostConfig> | undefined, market: Partial<TradingConfig['market']> = {}): CostModel {
+  return new CostModel({
+    ...defaultConfig,
+    costs: costs && { ...defaultConfig.costs!, ...costs },
+    market: { ...defaultConfig.market, ...market },
+  });
+}
+
+function assertNear(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} is not ${expected}`);
+}
+
+describe('CostModel', () => {
+  const candles = makeMinuteCandles(0, 3);
+
+  it('charges the fee rate of the market and liquidity', () => {
+    const futures = makeModel({});
+    assert.equal(futures.getFeeRate('maker'), 0.02);
+    assert.equal(futures.getFeeRate('taker'), 0.05);
+    assert.equal(makeModel({}, { type: 'spot' }).getFeeRate('maker'), 0.1);
+
+    const fill = futures.getFillCost(candles, 0, 100, 2, 'taker');
+    assertNear(fill.fee, 0.1);
+    assertNear(fill.slippage, 0.02);
+  });
+
+  it('costs nothing without a costs section', () => {
+    const model = makeModel(undefined);
+
+    assert.equal(model.enabled, false);
+    assert.deepEqual(model.getFillCost(candles, 0, 100, 2, 'taker'), { fee: 0, slippage: 0 });
+    assert.equal(model.getFundingCost('LONG', 1000, 0, 24 * HOUR_MS), 0);
+  });
+
+  it('prices slippage by the configured model', () => {
+    const fraction = (slippage: CostConfig['slippage'], index: number, candleList = candles) =>
+      makeModel({ slippage }).getSlippageFraction(candleList, index, 100);
+
+    assert.equal(fraction({ model: 'none', value: 5 }, 0), 0);
+    assert.equal(fraction({ model: 'fixedBps', value: 5 }, 0), 0.0005);
+    // A tenth of the 99-101 range
+    assertNear(fraction({ model: 'rangeFraction', value: 0.1 }, 0), 0.002);
+
+    // Twice the slippage on a candle with half the average volume
+    const volumes = [1, 3, 1].map((volume, i) => makeCandle(i * MINUTE_MS, { volume }));
+    const volume = { model: 'volume' as const, value: 10, volumeLookback: 2 };
+    assertNear(fraction(volume, 2, volumes), 0.002);
+    assertNear(fraction(volume, 0, volumes), 0.001);
+  });
+
+  it('charges longs and credits shorts for every funding time crossed', () => {
+    const model = makeModel({});
+    // 07:00 to 17:00 crosses the 08:00 and 16:00 funding times
+    const openTime = Date.UTC(2024, 8, 2, 7);
+    const closeTime = Date.UTC(2024, 8, 2, 17);
+
+    assertNear(model.getFundingCost('LONG', 1000, openTime, closeTime), 0.2);
+    assertNear(model.getFundingCost('SHORT', 1000, openTime, closeTime), -0.2);
+    assert.equal(model.getFundingCost('LONG', 1000, openTime, openTime + HOUR_MS / 2), 0);
+    assert.equal(makeModel({}, { type: 'spot' }).getFundingCost('LONG', 1000, openTime, closeTime), 0);
+    assert.equal(
+      makeModel({ funding: { enabled: false, ratePercent: 0.01, intervalHours: 8 } }).getFundingCost(
+        'LONG',
+        1000,
+        openTime,
+        closeTime
+      ),
+      0
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTimestamp } from '../csv-candle-reader';
+
+describe('parseTimestamp', () => {
+  it('scales numeric timestamps by unit', () => {
+    assert.equal(parseTimestamp('1704067200', 's', 'UTC'), 1704067200000);
+    assert.equal(parseTimestamp('1704067200000', 'ms', 'UTC'), 1704067200000);
+    assert.equal(parseTimestamp('1704067200000123', 'us', 'UTC'), 1704067200000);
+    assert.equal(parseTimestamp(' 1704067200000123456 ', 'ns', 'UTC'), 1704067200000);
+  });
+
+  it('parses date-times in the given timezone', () => {
+    assert.equal(parseTimestamp('2024-01-01 00:00:00', 'ms', 'UTC'), Date.UTC(2024, 0, 1));
+    assert.equal(parseTimestamp('2024/01/01', 'ms', 'UTC'), Date.UTC(2024, 0, 1));
+    assert.equal(parseTimestamp('2024-01-01T00:00:00.5', 'ms', 'UTC'), Date.UTC(2024, 0, 1, 0, 0, 0, 500));
+    assert.equal(parseTimestamp('2024-01-01 08:00', 'ms', '+08:00'), Date.UTC(2024, 0, 1));
+    assert.equal(parseTimestamp('2024-01-01 09:00', 'ms', 'Europe/Berlin'), Date.UTC(2024, 0, 1, 8));
+    assert.equal(parseTimestamp('2024-07-01 09:00', 'ms', 'Europe/Berlin'), Date.UTC(2024, 6, 1, 7));
+  });
+
+  it('prefers an offset in the value over the timezone', () => {
+    assert.equal(parseTimestamp('2024-01-01T00:00:00Z', 'ms', 'Asia/Tokyo'), Date.UTC(2024, 0, 1));
+    assert.equal(parseTimestamp('2024-01-01T02:00:00+0200', 'ms', 'UTC'), Date.UTC(2024, 0, 1));
+  });
+
+  it('resolves wall clock times next to a daylight saving change', () => {
+    // Berlin moves from +01:00 to +02:00 at 2024-03-31 01:00 UTC
+    assert.equal(parseTimestamp('2024-03-31 01:30', 'ms', 'Europe/Berlin'), Date.UTC(2024, 2, 31, 0, 30));
+    assert.equal(parseTimestamp('2024-03-31 03:30', 'ms', 'Europe/Berlin'), Date.UTC(2024, 2, 31, 1, 30));
+  });
+
+  it('returns NaN for values that are neither', () => {
+    assert.ok(isNaN(parseTimestamp('', 'ms', 'UTC')));
+    assert.ok(isNaN(parseTimestamp('yesterday', 'ms', 'UTC')));
+  });
+});
@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import defaultConfig from '../config';
+import { fromMonthIndex, toMonthIndex } from '../data-availability';
+import { DataFetcher } from '../data-fetcher';
+import { DEFAULT_DOWNLOAD_CONFIG } from '../downloader';
+import { TradingConfig } from '../interfaces';
+
+// Archives are written under kline/ like real downloads, for a symbol that
+// does not exist on the exchange
+const SYMBOL = 'FIXTUREUSDT';
+const SYMBOL_DIR = path.join(__dirname, '../../kline/um', SYMBOL);
+const CSV_DIR = path.join(SYMBOL_DIR, '1d', 'csv');
+const ARCHIVE_ROOT = `/data/futures/um/monthly/klines/${SYMBOL}/1d`;
+const DAILY_ROOT = `/data/futures/um/daily/klines/${SYMBOL}/1d`;
+
+function makeArchive(name: string): Buffer {
+  const zip = new AdmZip();
+  zip.addFile(`${name}.csv`, Buffer.from('1704067200000,1,2,0.5,1.5,10,1704153599999,15,3,5,7.5,0\n'));
+  return zip.toBuffer();
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+describe('DataFetcher downloads', () => {
+  let server: http.Server;
+  let runConfig: TradingConfig;
+  let files: Map<string, Buffer | string | number>;
+  let requests: string[];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url!);
+      const file = files.get(req.url!) ?? 404;
+      if (typeof file === 'number') {
+        res.writeHead(file).end();
+      } else {
+        res.end(file);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    runConfig = {
+      ...defaultConfig,
+      market: { type: 'futures', subType: 'um' },
+      singleBacktest: { symbol: SYMBOL, timeframe: '1d' },
+      dataFetch: { startDate: { year: 2024, month: 1 }, endDate: { year: 2024, month: 1 } },
+      download: {
+        ...DEFAULT_DOWNLOAD_CONFIG,
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        retries: 0,
+      },
+      dataValidation: { mode: 'warn', verifyChecksums: true, checksumRetries: 1 },
+    };
+  });
+
+  beforeEach(() => {
+    fs.rmSync(SYMBOL_DIR, { recursive: true, force: true });
+    files = new Map();
+    requests = [];
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(SYMBOL_DIR, { recursive: true, force: true });
+    // kline/um and kline/ too, unless real downloads live there
+    for (const dir of [path.dirname(SYMBOL_DIR), path.dirname(path.dirname(SYMBOL_DIR))]) {
+      if (fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+        fs.rmdirSync(dir);
+      }
+    }
+  });
+
+  const fetch = () => new DataFetcher(SYMBOL, runConfig).fetchHistoricalData();
+
+  // Publishes an archive with its checksum
+  const publish = (url: string, name: string) => {
+    const archive = makeArchive(name);
+    files.set(url, archive);
+    files.set(`${url}.CHECKSUM`, `${sha256(archive)}  ${name}.zip\n`);
+  };
+
+  describe('checksums', () => {
+    const name = `${SYMBOL}-1d-2024-01`;
+    const url = `${ARCHIVE_ROOT}/${name}.zip`;
+    const archive = makeArchive(name);
+
+    it('extracts an archive that matches its checksum', async () => {
+      files.set(url, archive);
+      files.set(`${url}.CHECKSUM`, `${sha256(archive)}  ${name}.zip\n`);
+
+      const summary = await fetch();
+      assert.deepEqual(summary.downloaded, [name]);
+      assert.deepEqual(summary.missing, []);
+      assert.ok(fs.existsSync(path.join(CSV_DIR, `${name}.csv`)));
+    });
+
+    it('downloads again after a mismatch and reports the month missing when it persists', async () => {
+      files.set(url, archive);
+      files.set(`${url}.CHECKSUM`, `${'0'.repeat(64)}  ${name}.zip\n`);
+
+      const summary = await fetch();
+      assert.equal(requests.filter((request) => request === url).length, 2);
+      assert.deepEqual(summary.downloaded, []);
+      assert.equal(summary.missing.length, 1);
+      assert.match(summary.missing[0].reason, /Checksum mismatch/);
+      assert.equal(fs.existsSync(path.join(CSV_DIR, `${name}.csv`)), false);
+    });
+
+    it('uses an archive without a published checksum unverified', async () => {
+      files.set(url, archive);
+
+      const summary = await fetch();
+      assert.deepEqual(summary.downloaded, [name]);
+    });
+
+    it('reports the month missing when the checksum cannot be fetched', async () => {
+      files.set(url, archive);
+      files.set(`${url}.CHECKSUM`, 503);
+
+      const summary = await fetch();
+      assert.deepEqual(summary.downloaded, []);
+      assert.match(summary.missing[0].reason, /Could not fetch checksum/);
+    });
+  });
+
+  describe('daily archives', () => {
+    const days = Array.from({ length: 31 }, (_, i) => `${SYMBOL}-1d-2024-01-${String(i + 1).padStart(2, '0')}`);
+
+    it('covers a month without a monthly archive with its daily archives', async () => {
+      days.slice(0, 20).forEach((name) => publish(`${DAILY_ROOT}/${name}.zip`, name));
+
+      const summary = await fetch();
+      assert.deepEqual(summary.downloaded, days.slice(0, 20));
+      assert.deepEqual(summary.missing, []);
+      assert.deepEqual(fs.readdirSync(CSV_DIR).sort(), days.slice(0, 20).map((name) => `${name}.csv`));
+    });
+
+    it('reports the month missing when no archive is published', async () => {
+      const summary = await fetch();
+      assert.deepEqual(summary.missing, [{ period: '2024-01', reason: 'not published' }]);
+    });
+
+    it('replaces daily files once the monthly archive is published', async () => {
+      days.slice(0, 2).forEach((name) => publish(`${DAILY_ROOT}/${name}.zip`, name));
+      await fetch();
+      publish(`${ARCHIVE_ROOT}/${SYMBOL}-1d-2024-01.zip`, `${SYMBOL}-1d-2024-01`);
+
+      const summary = await fetch();
+      assert.deepEqual(summary.downloaded, [`${SYMBOL}-1d-2024-01`]);
+      assert.deepEqual(fs.readdirSync(CSV_DIR), [`${SYMBOL}-1d-2024-01.csv`]);
+    });
+  });
+
+  describe('listing discovery', () => {
+    const now = new Date();
+    const latest = toMonthIndex({ year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 }) - 1;
+
+    // Publishes the CHECKSUM files of the monthly archives from `first` to `last`
+    const list = (first: number, last: number) => {
+      for (let index = first; index <= last; index++) {
+        const { year, month } = fromMonthIndex(index);
+        const name = `${SYMBOL}-1d-${year}-${String(month).padStart(2, '0')}`;
+        files.set(`${ARCHIVE_ROOT}/${name}.zip.CHECKSUM`, `${'0'.repeat(64)}  ${name}.zip\n`);
+      }
+    };
+    const discover = () => new DataFetcher(SYMBOL, runConfig).discoverListing();
+
+    it('finds a listing that spans a yearly probe', async () => {
+      list(latest - 40, latest - 10);
+      assert.deepEqual(await discover(), { first: fromMonthIndex(latest - 40), last: fromMonthIndex(latest - 10) });
+    });
+
+    it('finds a listing shorter than a year between two yearly probes', async () => {
+      list(latest - 23, latest - 19);
+      assert.deepEqual(await discover(), { first: fromMonthIndex(latest - 23), last: fromMonthIndex(latest - 19) });
+    });
+
+    it('reports a symbol without archives', async () => {
+      assert.equal(await discover(), undefined);
+    });
+  });
+});
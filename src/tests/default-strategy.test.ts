@@ -0,0 +1,390 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import defaultConfig from '../config';
+import { resolveStrategyParameters } from '../config-validation';
+import { CostModel } from '../cost-model';
+import { TargetStopExitRule, ThresholdBreakoutEntryRule, ZoneRecoveryExitRule } from '../default-strategy';
+import { AmbiguousCandlePolicy, CandleData, Entry, TradingConfig } from '../interfaces';
+import { EntryLevels, StrategyContext } from '../strategies';
+import { makeCandle, MINUTE_MS } from './helpers';
+
+const START = Date.UTC(2024, 8, 2);
+
+// Thresholds 1% around 100, so a long enters at 101 and a short at 99
+const LEVELS: EntryLevels = { upwardThreshold: 101, downwardThreshold: 99, dynamicThreshold: 1 };
+
+// Candles at START, one minute apart, that stay between the thresholds and
+// the exit levels of a long unless overridden
+function makeCandles(overrides: Partial<CandleData>[]): CandleData[] {
+  return overrides.map((candle, i) =>
+    makeCandle(START + i * MINUTE_MS, { open: 100.5, high: 100.8, low: 100.2, close: 100.5, ...candle })
+  );
+}
+
+// Default config without costs, with `trade` merged over the default trade
+// settings
+function makeRunConfig(trade: Partial<TradingConfig['trade']> = {}): TradingConfig {
+  return { ...defaultConfig, trade: { ...defaultConfig.trade, ...trade }, costs: undefined };
+}
+
+function makeContext(candles: CandleData[], runConfig: TradingConfig = makeRunConfig()): StrategyContext {
+  return {
+    symbol: 'ETHUSDT',
+    runConfig,
+    candles,
+    parameters: resolveStrategyParameters(runConfig),
+    costModel: new CostModel(runConfig),
+    formatPrice: (price) => Number(price).toFixed(2),
+    formatTime: (timestamp) => new Date(timestamp).toISOString(),
+    formatCandleDetails: (candle) => ({
+      open: candle.open.toFixed(2),
+      high: candle.high.toFixed(2),
+      low: candle.low.toFixed(2),
+      close: candle.close.toFixed(2),
+      volume: candle.volume,
+    }),
+  };
+}
+
+function makeEntry(side: Entry['side']): Entry {
+  const price = side === 'LONG' ? LEVELS.upwardThreshold : LEVELS.downwardThreshold;
+  return {
+    reason: side === 'LONG' ? 'UpwardThresholdMet' : 'DownwardThresholdMet',
+    side,
+    price,
+    formatted_price: `${price.toFixed(2)} USDT`,
+    time: new Date(START + MINUTE_MS).toISOString(),
+    candlesUntilThreshold: 1,
+    PositionEntryCandleDetails: { open: '100.00', high: '101.00', low: '99.00', close: '100.00', volume: 1 },
+  };
+}
+
+function assertNear(actual: number | undefined, expected: number): void {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+describe('TargetStopExitRule', () => {
+  // Entry on candle 1; a long at 101 takes profit at 102.01 and stops at 99.99
+  const simulate = (
+    side: Entry['side'],
+    candles: Partial<CandleData>[],
+    runConfig?: TradingConfig
+  ) => new TargetStopExitRule().simulate(1, makeEntry(side), LEVELS, makeContext(makeCandles(candles), runConfig));
+
+  it('takes profit at the target one threshold beyond the entry', () => {
+    const outcome = simulate('LONG', [{}, { high: 101.2 }, {}, { high: 102.5 }]);
+
+    assert.equal(outcome?.exit?.reason, 'TakeProfitHit');
+    assert.equal(outcome.exitIndex, 3);
+    assert.equal(outcome.exit.candlesHeld, 2);
+    assertNear(outcome.exit.price, 102.01);
+    assertNear(outcome.exit.grossPnlPercent, 1);
+    assertNear(outcome.exit.pnlPercent, 1);
+    assertNear(outcome.exit.maxAdverseExcursion, ((101 - 100.2) / 101) * 100);
+    assertNear(outcome.exit.maxFavorableExcursion, 1);
+  });
+
+  it('stops out shorts above the entry', () => {
+    const entryCandle = { open: 99.5, high: 99.6, low: 98.8, close: 99.2 };
+    const outcome = simulate('SHORT', [{}, entryCandle, { high: 100.2 }]);
+
+    assert.equal(outcome?.exit?.reason, 'StopLossHit');
+    assert.equal(outcome.exit.candlesHeld, 1);
+    assertNear(outcome.exit.price, 99.99);
+    assertNear(outcome.exit.grossPnlPercent, -1);
+  });
+
+  it('assumes the stop-loss came first when a later candle touches both levels', () => {
+    const outcome = simulate('LONG', [{}, { high: 101.2 }, { high: 103, low: 99 }]);
+
+    assert.equal(outcome?.exit?.reason, 'StopLossHit');
+    assert.equal(outcome.exitIndex, 2);
+  });
+
+  it('closes at the candle close once the holding limit is reached', () => {
+    const runConfig = makeRunConfig({ exit: { ...defaultConfig.trade.exit, maxHoldingCandles: 2 } });
+    const outcome = simulate('LONG', [{}, { high: 101.2 }, {}, { close: 100.25 }, { high: 105 }], runConfig);
+
+    assert.equal(outcome?.exit?.reason, 'MaxHoldingPeriod');
+    assert.equal(outcome.exit.candlesHeld, 2);
+    assert.equal(outcome.exit.price, 100.25);
+  });
+
+  it('closes at the last close when no level is reached before the data ends', () => {
+    const outcome = simulate('LONG', [{}, { high: 101.2 }, {}, { close: 100.75 }]);
+
+    assert.equal(outcome?.exit?.reason, 'EndOfData');
+    assert.equal(outcome.exitIndex, 3);
+    assert.equal(outcome.exit.price, 100.75);
+  });
+
+  it('leaves a position open when the entry is on the last candle', () => {
+    assert.equal(simulate('LONG', [{}, { high: 101.2 }]), undefined);
+  });
+
+  it('takes levels as a percentage of the entry price', () => {
+    const runConfig = makeRunConfig({
+      exit: { takeProfit: { type: 'percent', value: 0.5 }, stopLoss: { type: 'percent', value: 2 } },
+    });
+    const outcome = simulate('LONG', [{}, { high: 101.2 }, { high: 101.6 }], runConfig);
+
+    assert.equal(outcome?.exit?.reason, 'TakeProfitHit');
+    assertNear(outcome.exit.price, 101.505);
+  });
+
+  it('checks the entry candle for a target beyond the entry', () => {
+    const outcome = simulate('LONG', [{}, { high: 102.5 }]);
+
+    assert.equal(outcome?.exit?.reason, 'TakeProfitHit');
+    assert.equal(outcome.exit.candlesHeld, 0);
+  });
+
+  it('leaves a stop touched on the entry candle to the ambiguous-candle policy', () => {
+    const entryCandle = { high: 101.2, low: 99.5 };
+    const withPolicy = (policy: 'pessimistic' | 'optimistic') =>
+      makeRunConfig({ ambiguousCandles: { policy, resolutionTimeframe: '1m' } });
+
+    const pessimistic = simulate('LONG', [{}, entryCandle, {}], withPolicy('pessimistic'));
+    assert.equal(pessimistic?.exit?.reason, 'StopLossHit');
+    assert.equal(pessimistic.exit.candlesHeld, 0);
+
+    const optimistic = simulate('LONG', [{}, entryCandle, {}], withPolicy('optimistic'));
+    assert.equal(optimistic?.exit?.reason, 'EndOfData');
+  });
+
+  it('deducts fees, slippage and funding from the exit return', () => {
+    const runConfig = { ...makeRunConfig(), costs: defaultConfig.costs };
+    const target = simulate('LONG', [{}, { high: 101.2 }, { high: 102.5 }], runConfig);
+    // Taker entry at 0.05% and maker exit at 0.02% of 102.01, 1 bps slippage
+    // on each fill and no funding time within the trade
+    assertNear(target?.exit?.costs.entryFee, 0.05);
+    assertNear(target?.exit?.costs.exitFee, (102.01 * 0.02) / 101);
+    assertNear(target?.exit?.costs.slippage, 0.01 + 102.01 / 101 / 100);
+    assert.equal(target?.exit?.costs.funding, 0);
+    assertNear(target?.exit?.pnlPercent, target!.exit!.grossPnlPercent - target!.exit!.costs.total);
+
+    const stop = simulate('LONG', [{}, { high: 101.2 }, { low: 99.5 }], runConfig);
+    assertNear(stop?.exit?.costs.exitFee, (99.99 * 0.05) / 101);
+  });
+
+  it('has no exit without trade.exit', () => {
+    assert.equal(simulate('LONG', [{}, { high: 102.5 }], makeRunConfig({ exit: undefined })), undefined);
+  });
+});
+
+describe('ZoneRecoveryExitRule', () => {
+  const withHedging = (maxLegs: number, trade: Partial<TradingConfig['trade']> = {}) =>
+    makeRunConfig({ hedging: { enabled: true, lotMultiplier: 2, netProfitTarget: 1, maxLegs }, ...trade });
+  // Entry on candle 1, as a long at 101
+  const simulate = (candles: Partial<CandleData>[], runConfig: TradingConfig = withHedging(3)) =>
+    new ZoneRecoveryExitRule().simulate(1, makeEntry('LONG'), LEVELS, makeContext(makeCandles(candles), runConfig));
+  const reversalDown = { open: 100, high: 100.3, low: 98.5, close: 99 };
+  const reversalUp = { open: 100, high: 101.5, low: 99.5, close: 101 };
+
+  it('closes at the exact price where the position makes the net target', () => {
+    const outcome = simulate([{}, { high: 101.2 }, { high: 102.5 }]);
+
+    assert.equal(outcome?.hedge?.closeReason, 'NetProfitTarget');
+    assert.equal(outcome.hedge.legs.length, 1);
+    assertNear(outcome.hedge.closePrice, 102.01);
+    assertNear(outcome.hedge.grossPnlPercent, 1);
+    assert.equal(outcome.exit, undefined);
+  });
+
+  it('closes at the open when price gaps through the target', () => {
+    const outcome = simulate([{}, { high: 101.2 }, { open: 103, high: 103.5, low: 102.8, close: 103 }]);
+
+    assert.equal(outcome?.hedge?.closePrice, 103);
+    assertNear(outcome.hedge.grossPnlPercent, (2 / 101) * 100);
+  });
+
+  it('opens a larger opposite leg on each reversal', () => {
+    const outcome = simulate([{}, { high: 101.2 }, reversalDown, reversalUp, {}]);
+
+    assert.deepEqual(
+      outcome?.hedge?.legs.map(({ side, size, price }) => ({ side, size, price })),
+      [
+        { side: 'LONG', size: 1, price: 101 },
+        { side: 'SHORT', size: 2, price: 99 },
+        { side: 'LONG', size: 4, price: 101 },
+      ]
+    );
+    assert.deepEqual(
+      outcome.hedge.exposure.map((point) => point.netExposure),
+      [1, -1, 3, 0]
+    );
+    assert.equal(outcome.hedge.closeReason, 'EndOfData');
+    assert.equal(outcome.hedge.candlesHeld, 3);
+  });
+
+  it('nets the legs against each other at the target after a reversal', () => {
+    // Long 1 at 101 and short 2 at 99 make 1% of the first leg at 95.99
+    const outcome = simulate([{}, { high: 101.2 }, reversalDown, { open: 97, high: 98, low: 95.5, close: 96 }]);
+
+    assert.equal(outcome?.hedge?.closeReason, 'NetProfitTarget');
+    assert.equal(outcome.exitIndex, 3);
+    assertNear(outcome.hedge.closePrice, 95.99);
+    assertNear(outcome.hedge.netPnl, 1.01);
+    assertNear(outcome.hedge.netPnlPercent, 1);
+  });
+
+  it('closes at the reversal price once maxLegs is reached', () => {
+    const outcome = simulate([{}, { high: 101.2 }, reversalDown, reversalUp, {}], withHedging(2));
+
+    assert.equal(outcome?.hedge?.closeReason, 'MaxLegsReached');
+    assert.equal(outcome.hedge.closePrice, 101);
+    assert.equal(outcome.hedge.legs.length, 2);
+    assertNear(outcome.hedge.grossPnlPercent, (-4 / 101) * 100);
+  });
+
+  it('closes at the candle close once the holding limit is reached', () => {
+    const runConfig = withHedging(3, { exit: { ...defaultConfig.trade.exit, maxHoldingCandles: 2 } });
+    const outcome = simulate([{}, { high: 101.2 }, reversalDown, { close: 100.25 }, {}], runConfig);
+
+    assert.equal(outcome?.hedge?.closeReason, 'MaxHoldingPeriod');
+    assert.equal(outcome.hedge.closePrice, 100.25);
+    assert.equal(outcome.hedge.candlesHeld, 2);
+  });
+
+  it('has no outcome without hedging settings', () => {
+    assert.equal(simulate([{}, { high: 101.2 }, { high: 102.5 }], makeRunConfig({ hedging: undefined })), undefined);
+  });
+});
+
+describe('ThresholdBreakoutEntryRule', () => {
+  // Legend candle 0 with thresholds at 101 and 99
+  const findEntry = (candles: CandleData[], runConfig?: TradingConfig) =>
+    new ThresholdBreakoutEntryRule().findEntry(0, LEVELS, makeContext(candles, runConfig));
+  const withPolicy = (policy: AmbiguousCandlePolicy) =>
+    makeRunConfig({ ambiguousCandles: { policy, resolutionTimeframe: '1m' } });
+  // Touches both thresholds; a long would be 0.5 under water at the close
+  // and a short 1.5, and the high is nearer the open
+  const bothHit = { open: 101, high: 102, low: 98.5, close: 100.5 };
+
+  it('enters on the first threshold crossed', async () => {
+    const long = await findEntry(makeCandles([{}, {}, { high: 101.2 }, { low: 98.5 }]));
+    assert.equal(long.entry?.side, 'LONG');
+    assert.equal(long.entry.price, 101);
+    assert.equal(long.entry.candlesUntilThreshold, 2);
+    assert.equal(long.entryIndex, 2);
+    assert.equal(long.ambiguous, undefined);
+
+    const short = await findEntry(makeCandles([{}, { low: 98.5 }]));
+    assert.equal(short.entry?.side, 'SHORT');
+    assert.equal(short.entry.price, 99);
+  });
+
+  it('gives up after maxLookForwardCandles', async () => {
+    const runConfig = makeRunConfig({ maxLookForwardCandles: 2 });
+    const signal = await findEntry(makeCandles([{}, {}, {}, { high: 101.2 }]), runConfig);
+
+    assert.equal(signal.entry, undefined);
+    assert.equal(signal.entryIndex, -1);
+  });
+
+  it('decides candles touching both thresholds by the configured policy', async () => {
+    const candles = makeCandles([{}, bothHit]);
+    const expected: [AmbiguousCandlePolicy, Entry['side']][] = [
+      ['pessimistic', 'SHORT'],
+      ['optimistic', 'LONG'],
+      ['openProximity', 'LONG'],
+    ];
+
+    for (const [policy, side] of expected) {
+      const signal = await findEntry(candles, withPolicy(policy));
+      assert.equal(signal.entry?.side, side, policy);
+      assert.equal(signal.entryIndex, 1);
+      assert.deepEqual(signal.ambiguous, {
+        candleTime: new Date(START + MINUTE_MS).toISOString(),
+        side,
+        resolvedBy: policy,
+      });
+    }
+  });
+
+  it('takes no entry for an ambiguous candle under the skip policy', async () => {
+    const signal = await findEntry(makeCandles([{}, bothHit, { high: 101.2 }]), withPolicy('skip'));
+
+    assert.equal(signal.entry, undefined);
+    assert.equal(signal.ambiguous?.side, null);
+    assert.equal(signal.ambiguous.resolvedBy, 'skip');
+  });
+
+  describe('with lower-timeframe candles on disk', () => {
+    const FIVE_MINUTES_MS = 5 * MINUTE_MS;
+    let directory: string;
+
+    // 5m candles whose candle 1 is decided by its 1m candles: the downward
+    // threshold is crossed in the second minute, before the upward one.
+    // Candle 3 touches both thresholds in a single minute, and candle 5 has
+    // no 1m candles at all.
+    const candles = [{}, bothHit, {}, bothHit, {}, bothHit].map((candle, i) =>
+      makeCandle(START + i * FIVE_MINUTES_MS, {
+        open: 100.5,
+        high: 100.8,
+        low: 100.2,
+        close: 100.5,
+        closeTime: START + (i + 1) * FIVE_MINUTES_MS - 1,
+        ...candle,
+      })
+    );
+    const minuteRows = [
+      [1, 100.5, 100.9, 100.4, 100.8],
+      [1, 100.8, 100.9, 98.8, 99.2],
+      [1, 99.2, 102, 99.1, 101.5],
+      [3, 101, 102, 98.5, 100.5],
+    ].map(([candle, ...prices], i) => [START + candle * FIVE_MINUTES_MS + (i % 3) * MINUTE_MS, ...prices, 1]);
+
+    const runConfig: TradingConfig = {
+      ...withPolicy('optimistic'),
+      singleBacktest: { symbol: 'ETHUSDT', timeframe: '5m' },
+      market: {
+        ...defaultConfig.market,
+        source: 'csv',
+        directory: '',
+        csv: { columns: { openTime: 'openTime', open: 'open', high: 'high', low: 'low', close: 'close', volume: 'volume' } },
+      },
+      candleCache: { enabled: false },
+    };
+
+    before(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'default-strategy-test-'));
+      runConfig.market.directory = path.join(directory, '{timeframe}');
+      fs.mkdirSync(path.join(directory, '1m'));
+      fs.writeFileSync(
+        path.join(directory, '1m', 'ETHUSDT.csv'),
+        ['openTime,open,high,low,close,volume', ...minuteRows.map((row) => row.join(','))].join('\n')
+      );
+    });
+
+    after(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('takes the side whose threshold a finer candle crossed first', async () => {
+      const signal = await findEntry(candles, runConfig);
+
+      assert.equal(signal.entry?.side, 'SHORT');
+      assert.deepEqual(signal.ambiguous, {
+        candleTime: new Date(START + FIVE_MINUTES_MS).toISOString(),
+        side: 'SHORT',
+        resolvedBy: 'lowerTimeframe',
+        resolutionTimeframe: '1m',
+      });
+    });
+
+    it('falls back to the policy when the finer candles cannot decide', async () => {
+      const context = makeContext(candles, runConfig);
+      const rule = new ThresholdBreakoutEntryRule();
+
+      for (const legendIndex of [2, 4]) {
+        const signal = await rule.findEntry(legendIndex, LEVELS, context);
+        assert.equal(signal.entry?.side, 'LONG');
+        assert.equal(signal.ambiguous?.resolvedBy, 'optimistic');
+      }
+    });
+  });
+});
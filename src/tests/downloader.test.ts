@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { ConcurrencyLimiter, DEFAULT_DOWNLOAD_CONFIG, Downloader, isNotFound } from '../downloader';
+
+const BODY = Buffer.from('0123456789'.repeat(100));
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more than the limit, even for callers arriving as a slot frees up', async () => {
+    for (let ticks = 0; ticks < 6; ticks++) {
+      const limiter = new ConcurrencyLimiter(1);
+      let running = 0;
+      let maxRunning = 0;
+      const task = (release: Promise<void>) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await release;
+        running--;
+      };
+
+      let releaseFirst!: () => void;
+      const first = limiter.run(task(new Promise<void>((resolve) => (releaseFirst = resolve))));
+      const second = limiter.run(task(new Promise<void>((resolve) => setTimeout(resolve, 5))));
+      releaseFirst();
+      for (let i = 0; i < ticks; i++) {
+        await Promise.resolve();
+      }
+      const third = limiter.run(task(Promise.resolve()));
+      await Promise.all([first, second, third]);
+
+      assert.equal(maxRunning, 1, `caller arriving after ${ticks} ticks`);
+    }
+  });
+
+  it('starts queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    await Promise.all(
+      [0, 1, 2, 3, 4].map((i) =>
+        limiter.run(async () => {
+          started.push(i);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+        })
+      )
+    );
+    assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  });
+});
+
+describe('Downloader', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let directory: string;
+  // Handler of the next request per path; later requests reuse the last one
+  let routes: Map<string, Array<(req: http.IncomingMessage, res: http.ServerResponse) => void>>;
+  let requests: Array<{ path: string; range?: string }>;
+
+  const downloader = new Downloader({ ...DEFAULT_DOWNLOAD_CONFIG, backoffMs: 1, maxBackoffMs: 1, retries: 2 });
+
+  const route = (urlPath: string, ...handlers: Array<(req: http.IncomingMessage, res: http.ServerResponse) => void>) =>
+    routes.set(urlPath, handlers);
+
+  const status = (code: number) => (_req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(code).end();
+  };
+
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'downloader-test-'));
+    server = http.createServer((req, res) => {
+      requests.push({ path: req.url!, range: req.headers.range });
+      const handlers = routes.get(req.url!) ?? [status(404)];
+      (handlers.length > 1 ? handlers.shift()! : handlers[0])(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    routes = new Map();
+    requests = [];
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('retries server errors and returns the body', async () => {
+    route('/file', status(503), status(500), (_req, res) => res.end('done'));
+    assert.equal(await downloader.get(`${baseUrl}/file`, 'text'), 'done');
+    assert.equal(requests.length, 3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    route('/file', status(503));
+    await assert.rejects(downloader.get(`${baseUrl}/file`, 'text'));
+    assert.equal(requests.length, 3);
+  });
+
+  it('does not retry a 404', async () => {
+    await assert.rejects(downloader.get(`${baseUrl}/missing`, 'text'), isNotFound);
+    assert.equal(requests.length, 1);
+  });
+
+  it('resumes an interrupted body with a Range request', async () => {
+    const filePath = path.join(directory, 'resumed.zip');
+    route(
+      '/archive.zip',
+      (_req, res) => {
+        res.writeHead(200, { 'Content-Length': BODY.length });
+        res.write(BODY.subarray(0, 400), () => res.destroy());
+      },
+      (req, res) => {
+        const start = Number(/^bytes=(\d+)-$/.exec(req.headers.range ?? '')![1]);
+        res.writeHead(206, { 'Content-Range': `bytes ${start}-${BODY.length - 1}/${BODY.length}` });
+        res.end(BODY.subarray(start));
+      }
+    );
+
+    await downloader.download(`${baseUrl}/archive.zip`, filePath);
+    assert.deepEqual(fs.readFileSync(filePath), BODY);
+    assert.equal(fs.existsSync(`${filePath}.part`), false);
+    assert.deepEqual(
+      requests.map((request) => request.range),
+      [undefined, 'bytes=400-']
+    );
+  });
+
+  it('continues a part file left by an earlier run', async () => {
+    const filePath = path.join(directory, 'continued.zip');
+    fs.writeFileSync(`${filePath}.part`, BODY.subarray(0, 250));
+    route('/archive.zip', (req, res) => {
+      assert.equal(req.headers.range, 'bytes=250-');
+      res.writeHead(206).end(BODY.subarray(250));
+    });
+
+    await downloader.download(`${baseUrl}/archive.zip`, filePath);
+    assert.deepEqual(fs.readFileSync(filePath), BODY);
+  });
+
+  it('starts over when the server ignores the range', async () => {
+    const filePath = path.join(directory, 'restarted.zip');
+    fs.writeFileSync(`${filePath}.part`, Buffer.from('stale bytes'));
+    route('/archive.zip', (_req, res) => res.end(BODY));
+
+    await downloader.download(`${baseUrl}/archive.zip`, filePath);
+    assert.deepEqual(fs.readFileSync(filePath), BODY);
+  });
+
+  it('keeps a part file that is already complete', async () => {
+    const filePath = path.join(directory, 'complete.zip');
+    fs.writeFileSync(`${filePath}.part`, BODY);
+    route('/archive.zip', (_req, res) => res.writeHead(416, { 'Content-Range': `bytes */${BODY.length}` }).end());
+
+    await downloader.download(`${baseUrl}/archive.zip`, filePath);
+    assert.deepEqual(fs.readFileSync(filePath), BODY);
+  });
+});
@@ -0,0 +1,27 @@
+import { CandleData } from '../interfaces';
+
+export const MINUTE_MS = 60 * 1000;
+
+// A candle with consistent prices and a volume of 1 that opens at `openTime`
+export function makeCandle(openTime: number, overrides: Partial<CandleData> = {}): CandleData {
+  return {
+    openTime,
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100.5,
+    volume: 1,
+    closeTime: openTime + MINUTE_MS - 1,
+    quoteAssetVolume: 100,
+    trades: 10,
+    takerBuyBaseAssetVolume: 0.5,
+    takerBuyQuoteAssetVolume: 50,
+    ignore: 0,
+    ...overrides,
+  };
+}
+
+// `count` consecutive 1m candles starting at `start`
+export function makeMinuteCandles(start: number, count: number): CandleData[] {
+  return Array.from({ length: count }, (_, i) => makeCandle(start + i * MINUTE_MS));
+}
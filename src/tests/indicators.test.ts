@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RollingAtr, RollingWindow } from '../indicators';
+import { makeCandle, MINUTE_MS } from './helpers';
+
+describe('RollingWindow', () => {
+  it('keeps the mean and sample deviation of the last values', () => {
+    const window = new RollingWindow(3);
+    assert.equal(window.push(1), undefined);
+    window.push(2);
+    window.push(3);
+    assert.equal(window.push(10), 1);
+
+    assert.deepEqual(window.values(), [2, 3, 10]);
+    assert.equal(window.mean, 5);
+    assert.equal(window.variance, 19);
+    assert.equal(window.isFull, true);
+  });
+
+  it('does not drift over many small values', () => {
+    const window = new RollingWindow(100);
+    for (let i = 0; i < 1_000_000; i++) {
+      window.push(i % 2 === 0 ? 1e8 : 1e-8);
+    }
+    assert.equal(window.mean, (1e8 + 1e-8) / 2);
+  });
+
+  it('rejects empty windows', () => {
+    assert.throws(() => new RollingWindow(0), /must be positive/);
+  });
+});
+
+describe('RollingAtr', () => {
+  it('averages the true ranges of the last period candles', () => {
+    const candles = [
+      makeCandle(0, { high: 10, low: 9, close: 9.5 }),
+      makeCandle(MINUTE_MS, { high: 12, low: 11, close: 11.5 }), // gap up: 12 - 9.5
+      makeCandle(2 * MINUTE_MS, { high: 11.8, low: 11.2, close: 11.4 }), // 0.6
+      makeCandle(3 * MINUTE_MS, { high: 11, low: 10, close: 10.5 }), // gap down: 11.4 - 10
+    ];
+    const atr = new RollingAtr(2);
+
+    atr.push(candles[0]);
+    assert.equal(atr.value, 0);
+    assert.equal(atr.isReady, false);
+    atr.push(candles[1]);
+    atr.push(candles[2]);
+    assert.equal(atr.isReady, true);
+    assert.ok(Math.abs(atr.value - (2.5 + 0.6) / 2) < 1e-12);
+    atr.push(candles[3]);
+    assert.ok(Math.abs(atr.value - (0.6 + 1.4) / 2) < 1e-12);
+  });
+});
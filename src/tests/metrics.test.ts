@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateDrawdown, calculatePerformanceMetrics, TradeRecord } from '../metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeTrade(
+  side: TradeRecord['side'],
+  pnlPercent: number,
+  entryDay: number,
+  exitDay: number,
+  mae = 0,
+  mfe = 0
+): TradeRecord {
+  return { side, pnlPercent, entryTime: entryDay * DAY_MS, exitTime: exitDay * DAY_MS, mae, mfe };
+}
+
+function assertNear(actual: number | null, expected: number): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+describe('calculatePerformanceMetrics', () => {
+  // Out of exit order on purpose: +10, -5, -5, +20
+  const trades = [
+    makeTrade('SHORT', 20, 3, 5, 2, 25),
+    makeTrade('LONG', 10, 0, 1, 1, 12),
+    makeTrade('LONG', -5, 2, 3, 5, 1),
+    makeTrade('SHORT', -5, 1, 2, 6, 2),
+  ];
+
+  it('measures the drawdown of the compounded trades in exit order', () => {
+    const metrics = calculatePerformanceMetrics(trades, 40);
+
+    // From the 1.1 peak after the first trade down to 1.1 * 0.95 * 0.95
+    assertNear(metrics.maxDrawdown, (1 - 0.95 * 0.95) * 100);
+    // Below the day 1 peak until the last trade recovers it on day 5
+    assert.equal(metrics.maxDrawdownDurationDays, 4);
+    assert.equal(metrics.exposureTime, 40);
+  });
+
+  it('derives the ratios from the trade returns', () => {
+    const metrics = calculatePerformanceMetrics(trades, 40);
+
+    assert.equal(metrics.expectancy, 5);
+    assert.equal(metrics.profitFactor, 3);
+    assertNear(metrics.sharpeRatio, 5 / Math.sqrt(150));
+    assertNear(metrics.sortinoRatio, 5 / Math.sqrt(12.5));
+    assert.equal(metrics.averageMae, 3.5);
+    assert.equal(metrics.averageMfe, 10);
+    assert.equal(metrics.longestWinStreak, 1);
+    assert.equal(metrics.longestLossStreak, 2);
+  });
+
+  it('splits the trades by side', () => {
+    const { LONG, SHORT } = calculatePerformanceMetrics(trades, 40).bySide;
+
+    assert.equal(LONG.trades, 2);
+    assert.equal(LONG.winRate, 50);
+    assert.equal(LONG.averageReturn, 2.5);
+    assertNear(LONG.totalReturn, 4.5);
+    assert.equal(LONG.profitFactor, 2);
+
+    assert.equal(SHORT.averageReturn, 7.5);
+    assertNear(SHORT.totalReturn, 14);
+    assert.equal(SHORT.profitFactor, 4);
+  });
+
+  it('has no profit factor without losses and zeros without trades', () => {
+    assert.equal(calculatePerformanceMetrics([makeTrade('LONG', 1, 0, 1)], 1).profitFactor, null);
+
+    const empty = calculatePerformanceMetrics([], 0);
+    assert.equal(empty.maxDrawdown, 0);
+    assert.equal(empty.sharpeRatio, 0);
+    assert.equal(empty.sortinoRatio, 0);
+    assert.equal(empty.profitFactor, null);
+    assert.equal(empty.bySide.LONG.trades, 0);
+    assert.equal(empty.bySide.SHORT.winRate, 0);
+  });
+});
+
+describe('calculateDrawdown', () => {
+  it('counts a drawdown still open at the end up to the last exit', () => {
+    const drawdown = calculateDrawdown([makeTrade('LONG', 10, 0, 1), makeTrade('LONG', -5, 2, 4)]);
+
+    assertNear(drawdown.maxDrawdown, 5);
+    assert.equal(drawdown.maxDrawdownDurationDays, 3);
+  });
+});
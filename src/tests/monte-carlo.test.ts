@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MonteCarloConfig, ThresholdResult } from '../interfaces';
+import { MonteCarloAnalyzer } from '../monte-carlo';
+
+const SETTINGS: MonteCarloConfig = {
+  iterations: 200,
+  confidenceLevel: 90,
+  skipProbability: 0.2,
+  positionFraction: 50,
+  ruinThreshold: 20,
+};
+
+// Legend candles whose trades returned `pnlPercent`; undefined for no entry
+function makeResults(pnlPercents: Array<number | undefined>): ThresholdResult[] {
+  return pnlPercents.map(
+    (pnlPercent) =>
+      ({
+        success: pnlPercent !== undefined,
+        exit: pnlPercent === undefined ? undefined : { pnlPercent },
+      }) as ThresholdResult
+  );
+}
+
+const RESULTS = makeResults([5, -3, undefined, 8, -10, 2, undefined, -4, 6, 1]);
+
+describe('MonteCarloAnalyzer', () => {
+  it('repeats a run from the seed it records', () => {
+    const first = new MonteCarloAnalyzer(SETTINGS).analyze(RESULTS);
+    assert.equal(typeof first.seed, 'number');
+
+    const repeated = new MonteCarloAnalyzer({ ...SETTINGS, seed: first.seed }).analyze(RESULTS);
+    assert.deepEqual(repeated, first);
+    assert.match(MonteCarloAnalyzer.formatSummary('ETHUSDT 1m', first), new RegExp(`Seed: ${first.seed}`));
+  });
+
+  it('gives the same result for every analysis with a configured seed', () => {
+    const analyzer = new MonteCarloAnalyzer({ ...SETTINGS, seed: 42 });
+    assert.deepEqual(analyzer.analyze(RESULTS), analyzer.analyze(RESULTS));
+    assert.notDeepEqual(
+      new MonteCarloAnalyzer({ ...SETTINGS, seed: 43 }).analyze(RESULTS).bootstrap,
+      analyzer.analyze(RESULTS).bootstrap
+    );
+  });
+
+  it('keeps the compounded return of a shuffled trade order', () => {
+    const { shuffle, sampleSize } = new MonteCarloAnalyzer({ ...SETTINGS, seed: 1 }).analyze(RESULTS);
+    const expected =
+      ([5, -3, 8, -10, 2, -4, 6, 1].reduce((equity, pnl) => equity * (1 + (pnl / 100) * 0.5), 1) - 1) * 100;
+
+    assert.equal(sampleSize, RESULTS.length);
+    assert.ok(Math.abs(shuffle.totalReturn.min - expected) < 1e-9);
+    assert.ok(Math.abs(shuffle.totalReturn.max - expected) < 1e-9);
+    assert.equal(shuffle.successRate.median, 80);
+    assert.equal(shuffle.winRate.median, 62.5);
+  });
+
+  it('counts paths that fall below the ruin threshold', () => {
+    const losses = makeResults([-30, -30, -30]);
+    const { shuffle } = new MonteCarloAnalyzer({ ...SETTINGS, seed: 1 }).analyze(losses);
+    assert.equal(shuffle.probabilityOfRuin, 100);
+  });
+});
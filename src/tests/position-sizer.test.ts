@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SizingConfig, SymbolInfo } from '../interfaces';
+import { PositionSizer } from '../position-sizer';
+import { countDecimals, toSymbolInfo } from '../symbol-metadata';
+
+function makeSymbolInfo(overrides: Partial<SymbolInfo> = {}): SymbolInfo {
+  return {
+    symbol: 'ETHUSDT',
+    baseAsset: 'ETH',
+    quoteAsset: 'USDT',
+    baseAssetPrecision: 8,
+    quotePrecision: 8,
+    pricePrecision: 2,
+    quantityPrecision: 3,
+    stepSize: 0.001,
+    ...overrides,
+  };
+}
+
+function makeSizer(sizing: Partial<SizingConfig>, symbolInfo: Partial<SymbolInfo> = {}): PositionSizer {
+  return new PositionSizer({ method: 'fixedNotional', value: 1000, ...sizing }, makeSymbolInfo(symbolInfo));
+}
+
+function sizedQuantity(sizer: PositionSizer, equity: number, price: number): number {
+  const decision = sizer.size(equity, price, 1);
+  assert.ok(decision.accepted, !decision.accepted ? decision.reason : undefined);
+  return decision.quantity;
+}
+
+describe('PositionSizer', () => {
+  it('sizes by fixed notional, fixed fraction and volatility target', () => {
+    assert.equal(sizedQuantity(makeSizer({ method: 'fixedNotional', value: 500 }), 10000, 100), 5);
+    assert.equal(sizedQuantity(makeSizer({ method: 'fixedFraction', value: 10 }), 10000, 100), 10);
+    // 1% of equity at risk over a 2% threshold is half the equity
+    const decision = makeSizer({ method: 'volatilityTarget', value: 1 }).size(10000, 100, 2);
+    assert.deepEqual(decision, { accepted: true, quantity: 50, notional: 5000 });
+  });
+
+  it('floors quantities to steps that are not powers of ten', () => {
+    assert.equal(sizedQuantity(makeSizer({ value: 199 }, { stepSize: 0.5, quantityPrecision: 0 }), 10000, 100), 1.5);
+    assert.equal(sizedQuantity(makeSizer({ value: 99 }, { stepSize: 0.25, quantityPrecision: 1 }), 10000, 100), 0.75);
+    assert.equal(sizedQuantity(makeSizer({ value: 30 }, { stepSize: 0.1, quantityPrecision: 1 }), 10000, 100), 0.3);
+  });
+
+  it('falls back to quantityPrecision without a step size', () => {
+    assert.equal(sizedQuantity(makeSizer({ value: 123.456 }, { stepSize: undefined, quantityPrecision: 2 }), 10000, 100), 1.23);
+  });
+
+  it('caps the notional at maxLeverage less the open notional', () => {
+    const sizer = makeSizer({ value: 50000, maxLeverage: 2 });
+    assert.deepEqual(sizer.size(10000, 100, 1), { accepted: true, quantity: 200, notional: 20000 });
+    assert.deepEqual(sizer.size(10000, 100, 1, 15000), { accepted: true, quantity: 50, notional: 5000 });
+    assert.deepEqual(sizer.size(10000, 100, 1, 0, 4), { accepted: true, quantity: 50, notional: 5000 });
+    assert.deepEqual(sizer.size(10000, 100, 1, 20000), {
+      accepted: false,
+      reason: 'Open positions already use the maximum leverage',
+    });
+  });
+
+  it('never exceeds the capped notional on coarse steps', () => {
+    const sizer = makeSizer({ value: 50000, maxLeverage: 1 }, { stepSize: 0.5, quantityPrecision: 0 });
+    const decision = sizer.size(175, 100, 1);
+    assert.deepEqual(decision, { accepted: true, quantity: 1.5, notional: 150 });
+  });
+
+  it('rejects orders below the exchange minimums', () => {
+    assert.deepEqual(makeSizer({ value: 0.01 }).size(10000, 100, 1), {
+      accepted: false,
+      reason: 'Quantity rounds to zero',
+    });
+    assert.deepEqual(makeSizer({ value: 50 }, { minQty: 1 }).size(10000, 100, 1), {
+      accepted: false,
+      reason: 'Quantity 0.5 below minimum 1',
+    });
+    assert.deepEqual(makeSizer({ value: 50, maxLeverage: 1 }, { minNotional: 100 }).size(40, 100, 1), {
+      accepted: false,
+      reason: 'Notional 40.00 below minimum 100 after capping at maxLeverage',
+    });
+    assert.deepEqual(makeSizer({}).size(0, 100, 1), { accepted: false, reason: 'Account balance depleted' });
+  });
+
+  it('rounds hedge legs to the step', () => {
+    const sizer = makeSizer({}, { stepSize: 0.25, quantityPrecision: 2 });
+    assert.deepEqual(sizer.sizeHedgeLeg(1.5, 1.5, 100), { accepted: true, quantity: 2.25, notional: 225 });
+  });
+});
+
+describe('symbol metadata precision', () => {
+  it('counts the decimals of step and tick sizes', () => {
+    assert.equal(countDecimals('0.00100000'), 3);
+    assert.equal(countDecimals('0.5'), 1);
+    assert.equal(countDecimals('0.25000000'), 2);
+    assert.equal(countDecimals('1.00000000'), 0);
+    assert.equal(countDecimals('10'), 0);
+    assert.equal(countDecimals('1e-7'), 7);
+  });
+
+  it('takes the quantity precision from the LOT_SIZE step', () => {
+    const info = toSymbolInfo({
+      symbol: 'ETHUSDT',
+      baseAsset: 'ETH',
+      quoteAsset: 'USDT',
+      baseAssetPrecision: 8,
+      quotePrecision: 8,
+      filters: [
+        { filterType: 'PRICE_FILTER', tickSize: '0.01000000' },
+        { filterType: 'LOT_SIZE', stepSize: '0.25000000', minQty: '0.25000000' },
+      ],
+    });
+    assert.equal(info.quantityPrecision, 2);
+    assert.equal(info.pricePrecision, 2);
+    assert.equal(info.stepSize, 0.25);
+  });
+});
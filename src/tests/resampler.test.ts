@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resampleCandles } from '../resampler';
+import { makeCandle, makeMinuteCandles, MINUTE_MS } from './helpers';
+
+const HOUR_MS = 60 * MINUTE_MS;
+const START = Date.UTC(2024, 0, 1);
+
+describe('resampleCandles', () => {
+  it('merges whole buckets of the base timeframe', () => {
+    const candles = makeMinuteCandles(START, 10).map((candle, i) => ({
+      ...candle,
+      open: 100 + i,
+      high: 110 + i,
+      low: 90 - i,
+      close: 101 + i,
+    }));
+    const resampled = resampleCandles(candles, '1m', '5m');
+
+    assert.equal(resampled.length, 2);
+    assert.deepEqual(resampled[0], {
+      openTime: START,
+      open: 100,
+      high: 114,
+      low: 86,
+      close: 105,
+      volume: 5,
+      closeTime: START + 5 * MINUTE_MS - 1,
+      quoteAssetVolume: 500,
+      trades: 50,
+      takerBuyBaseAssetVolume: 2.5,
+      takerBuyQuoteAssetVolume: 250,
+      ignore: 0,
+    });
+    assert.equal(resampled[1].openTime, START + 5 * MINUTE_MS);
+  });
+
+  it('drops partial first and last buckets but keeps gaps inside the range', () => {
+    const candles = makeMinuteCandles(START + 3 * MINUTE_MS, 14).filter((_, i) => i !== 4);
+    const resampled = resampleCandles(candles, '1m', '5m');
+
+    assert.deepEqual(
+      resampled.map((candle) => candle.openTime),
+      [START + 5 * MINUTE_MS, START + 10 * MINUTE_MS]
+    );
+    assert.equal(resampled[0].volume, 4);
+  });
+
+  it('aligns weeks to Monday', () => {
+    // 2024-01-01 is a Monday
+    const candles = Array.from({ length: 14 * 24 }, (_, i) => makeCandle(START + i * HOUR_MS));
+    const resampled = resampleCandles(candles, '1h', '1w');
+
+    assert.deepEqual(
+      resampled.map((candle) => candle.openTime),
+      [START, START + 7 * 24 * HOUR_MS]
+    );
+  });
+
+  it('returns the candles unchanged for the same timeframe', () => {
+    const candles = makeMinuteCandles(START, 3);
+    assert.equal(resampleCandles(candles, '1m', '1m'), candles);
+  });
+
+  it('rejects targets that are not a multiple of the base', () => {
+    assert.throws(() => resampleCandles([], '3m', '5m'), /must be a multiple/);
+    assert.throws(() => resampleCandles([], '5m', '1m'), /must be a multiple/);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createVolatilityMeasure, getWarmupCandles } from '../volatility';
+import { makeCandle, MINUTE_MS } from './helpers';
+
+// Candles opening at 100 whose body percentage is `body`
+function bodyCandles(bodies: number[]) {
+  return bodies.map((body, i) => makeCandle(i * MINUTE_MS, { open: 100, close: 100 + body }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >>> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+describe('volatility measures', () => {
+  it('bodySma averages the body percentage of the window', () => {
+    const measure = createVolatilityMeasure('bodySma', 3);
+    bodyCandles([1, 2, 3, 4]).forEach((candle) => measure.push(candle));
+    assert.equal(measure.value, 3);
+    assert.equal(measure.isReady, true);
+  });
+
+  it('bodyMedian matches the median of a sorted window, including repeated values', () => {
+    for (const period of [1, 2, 5, 20]) {
+      const measure = createVolatilityMeasure('bodyMedian', period);
+      // Few distinct values, as with the many doji candles of real data
+      const bodies = Array.from({ length: 500 }, (_, i) => (i * 7919) % 5);
+      bodyCandles(bodies).forEach((candle, i) => {
+        measure.push(candle);
+        assert.equal(measure.value, median(bodies.slice(Math.max(0, i + 1 - period), i + 1)), `period ${period}, candle ${i}`);
+      });
+    }
+  });
+
+  it('returnStdDev covers a full window of returns after its warmup', () => {
+    const period = 3;
+    const warmup = getWarmupCandles('returnStdDev', period);
+    assert.equal(warmup, period + 1);
+
+    const closes = [100, 110, 99, 108.9];
+    const measure = createVolatilityMeasure('returnStdDev', period);
+    closes.slice(0, warmup - 1).forEach((close, i) => measure.push(makeCandle(i * MINUTE_MS, { close })));
+    assert.equal(measure.isReady, false);
+    measure.push(makeCandle(3 * MINUTE_MS, { close: closes[3] }));
+    assert.equal(measure.isReady, true);
+
+    // Returns of +10%, -10% and +10%
+    const mean = 10 / 3;
+    const variance = (2 * (10 - mean) ** 2 + (-10 - mean) ** 2) / 2;
+    assert.ok(Math.abs(measure.value - Math.sqrt(variance)) < 1e-9);
+  });
+
+  it('needs only the lookback for the other measures', () => {
+    for (const name of ['bodySma', 'bodyEma', 'atrPercent', 'highLowRange', 'bodyMedian'] as const) {
+      assert.equal(getWarmupCandles(name, 14), 14);
+    }
+  });
+});
@@ -0,0 +1,414 @@
+import fs from 'fs';
+import path from 'path';
+import { BacktestResult, BacktestStats, CandleDetails, ThresholdResult } from './interfaces';
+
+type Cell = string | number | boolean | null | undefined;
+
+// Column of the trade log: header and how to read it from a result
+type TradeLogColumn = [string, (result: ThresholdResult) => Cell];
+
+const candleColumns = (
+  prefix: string,
+  details: (result: ThresholdResult) => CandleDetails | undefined
+): TradeLogColumn[] =>
+  (['open', 'high', 'low', 'close', 'volume'] as const).map((field) => [
+    `${prefix}_${field}`,
+    (result) => details(result)?.[field],
+  ]);
+
+// Net return of a closed trade: the hedge cycle when hedging, else the exit
+function getTradePnl(result: ThresholdResult): number | undefined {
+  return result.hedge?.netPnlPercent ?? result.exit?.pnlPercent;
+}
+
+// One row per legend candle, with its thresholds and, when entered, the
+// entry, exit, hedge and position fields
+const TRADE_LOG_COLUMNS: TradeLogColumn[] = [
+  ['legend_no', (r) => r.Legend_Candle_no],
+  ['legend_time', (r) => r.timestamp],
+  ...candleColumns('legend', (r) => r.LegendCandle.LegendCandleDetails),
+  ['legend_difference', (r) => r.LegendCandle.LegendCandleDifference],
+  ['volatility_measure', (r) => r.LegendCandle.volatilityMeasure],
+  ['volatility_value', (r) => r.LegendCandle.volatilityValue],
+  ['dynamic_threshold', (r) => r.LegendCandle.currentDynamicThreshold],
+  ['upward_threshold', (r) => r.LegendCandle.upwardThreshold],
+  ['downward_threshold', (r) => r.LegendCandle.downwardThreshold],
+  ['success', (r) => r.success],
+  ['entry_side', (r) => r.entry?.side],
+  ['entry_reason', (r) => r.entry?.reason],
+  ['entry_time', (r) => r.entry?.time],
+  ['entry_price', (r) => r.entry?.price],
+  ['candles_until_threshold', (r) => r.entry?.candlesUntilThreshold],
+  ...candleColumns('entry', (r) => r.entry?.PositionEntryCandleDetails),
+  ['ambiguous_resolved_by', (r) => r.ambiguous?.resolvedBy],
+  ['ambiguous_side', (r) => r.ambiguous?.side],
+  ['exit_reason', (r) => r.exit?.reason],
+  ['exit_time', (r) => r.exit?.time],
+  ['exit_price', (r) => r.exit?.price],
+  ['exit_candles_held', (r) => r.exit?.candlesHeld],
+  ['exit_gross_pnl_percent', (r) => r.exit?.grossPnlPercent],
+  ['exit_pnl_percent', (r) => r.exit?.pnlPercent],
+  ['exit_costs_percent', (r) => r.exit?.costs.total],
+  ['exit_mae', (r) => r.exit?.maxAdverseExcursion],
+  ['exit_mfe', (r) => r.exit?.maxFavorableExcursion],
+  ...candleColumns('exit', (r) => r.exit?.PositionExitCandleDetails),
+  ['hedge_legs', (r) => r.hedge?.legs.length],
+  ['hedge_close_reason', (r) => r.hedge?.closeReason],
+  ['hedge_close_time', (r) => r.hedge?.closeTime],
+  ['hedge_close_price', (r) => r.hedge?.closePrice],
+  ['hedge_candles_held', (r) => r.hedge?.candlesHeld],
+  ['hedge_gross_pnl_percent', (r) => r.hedge?.grossPnlPercent],
+  ['hedge_net_pnl_percent', (r) => r.hedge?.netPnlPercent],
+  ['hedge_costs_percent', (r) => r.hedge?.costs.total],
+  ['hedge_mae', (r) => r.hedge?.maxAdverseExcursion],
+  ['hedge_mfe', (r) => r.hedge?.maxFavorableExcursion],
+  ['position_quantity', (r) => r.position?.quantity],
+  ['position_notional', (r) => r.position?.notional],
+  ['position_pnl', (r) => r.position?.pnl],
+  ['balance_after', (r) => r.position?.balanceAfter],
+  ['rejected_reason', (r) => r.position?.rejectedReason],
+];
+
+function toCsvField(value: Cell): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function getThresholdResults(result: BacktestResult): ThresholdResult[] {
+  return result.results.filter((entry): entry is ThresholdResult => entry !== null);
+}
+
+// Flattens the legend candles of a results file into a spreadsheet-friendly CSV
+export function buildTradeLogCsv(result: BacktestResult): string {
+  const lines = [TRADE_LOG_COLUMNS.map(([header]) => header).join(',')];
+  for (const thresholdResult of getThresholdResults(result)) {
+    lines.push(TRADE_LOG_COLUMNS.map(([, read]) => toCsvField(read(thresholdResult))).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(value: Cell): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const formatNumber = (value: number | null | undefined, digits = 2): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '-' : value.toFixed(digits);
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 40;
+// Long series are thinned to this many points, keeping the report small
+const MAX_CHART_POINTS = 1000;
+
+// Spreading a long series into Math.min/max overflows the call stack
+function getRange(values: number[]): { min: number; max: number } {
+  return values.reduce(
+    (range, value) => ({ min: Math.min(range.min, value), max: Math.max(range.max, value) }),
+    { min: Infinity, max: -Infinity }
+  );
+}
+
+// Line chart of `values` as inline SVG, with the first and last label on the x axis
+function renderLineChart(title: string, series: number[], labels: string[], unit: string): string {
+  if (series.length < 2) {
+    return `<h3>${escapeHtml(title)}</h3><p class="empty">Not enough data to chart.</p>`;
+  }
+  const step = Math.ceil(series.length / MAX_CHART_POINTS);
+  const values = series.filter((_, i) => i % step === 0 || i === series.length - 1);
+  const { min, max } = getRange(values);
+  const span = max - min || 1;
+  const x = (i: number) => CHART_PADDING + (i / (values.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / span) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const points = values.map((value, i) => `${x(i).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  return `<h3>${escapeHtml(title)}</h3>
+<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${escapeHtml(title)}">
+  <line class="axis" x1="${CHART_PADDING}" y1="${CHART_HEIGHT - CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_HEIGHT - CHART_PADDING}"/>
+  <line class="axis" x1="${CHART_PADDING}" y1="${CHART_PADDING}" x2="${CHART_PADDING}" y2="${CHART_HEIGHT - CHART_PADDING}"/>
+  <text x="${CHART_PADDING - 4}" y="${CHART_PADDING + 4}" text-anchor="end">${formatNumber(max)}${unit}</text>
+  <text x="${CHART_PADDING - 4}" y="${CHART_HEIGHT - CHART_PADDING}" text-anchor="end">${formatNumber(min)}${unit}</text>
+  <text x="${CHART_PADDING}" y="${CHART_HEIGHT - CHART_PADDING + 16}">${escapeHtml(labels[0])}</text>
+  <text x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT - CHART_PADDING + 16}" text-anchor="end">${escapeHtml(labels[labels.length - 1])}</text>
+  <polyline class="line" points="${points}"/>
+</svg>`;
+}
+
+// Histogram of candlesUntilThreshold: one bar per value up to 30 distinct
+// candle counts, otherwise 20 equal-width bins
+function renderDistribution(values: number[]): string {
+  const title = 'Candles until threshold';
+  if (values.length === 0) {
+    return `<h3>${title}</h3><p class="empty">No entries.</p>`;
+  }
+  const { min, max } = getRange(values);
+  const binCount = max - min < 30 ? max - min + 1 : 20;
+  const binWidth = (max - min + 1) / binCount;
+  const counts: number[] = new Array(binCount).fill(0);
+  for (const value of values) {
+    counts[Math.min(binCount - 1, Math.floor((value - min) / binWidth))]++;
+  }
+
+  const barWidth = (CHART_WIDTH - 2 * CHART_PADDING) / binCount;
+  const tallest = getRange(counts).max;
+  const bars = counts
+    .map((count, i) => {
+      const height = (count / tallest) * (CHART_HEIGHT - 2 * CHART_PADDING);
+      const from = Math.ceil(min + i * binWidth);
+      const to = Math.ceil(min + (i + 1) * binWidth) - 1;
+      const label = from >= to ? `${from}` : `${from}-${to}`;
+      return `<rect class="bar" x="${(CHART_PADDING + i * barWidth + 1).toFixed(1)}" y="${(
+        CHART_HEIGHT - CHART_PADDING - height
+      ).toFixed(1)}" width="${Math.max(1, barWidth - 2).toFixed(1)}" height="${height.toFixed(1)}"><title>${label} candles: ${count}</title></rect>`;
+    })
+    .join('\n  ');
+
+  return `<h3>${title}</h3>
+<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${title}">
+  <line class="axis" x1="${CHART_PADDING}" y1="${CHART_HEIGHT - CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_HEIGHT - CHART_PADDING}"/>
+  <text x="${CHART_PADDING - 4}" y="${CHART_PADDING + 4}" text-anchor="end">${tallest}</text>
+  <text x="${CHART_PADDING}" y="${CHART_HEIGHT - CHART_PADDING + 16}">${min}</text>
+  <text x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT - CHART_PADDING + 16}" text-anchor="end">${max}</text>
+  ${bars}
+</svg>`;
+}
+
+// Balance curve when the run tracked an account, else compounded trade returns
+function renderEquityChart(result: BacktestResult, results: ThresholdResult[]): string {
+  const curve = result.equityCurve ?? [];
+  if (curve.length >= 2) {
+    return renderLineChart('Equity', curve.map((point) => point.balance), curve.map((point) => point.time), '');
+  }
+
+  const trades = results.filter((r) => getTradePnl(r) !== undefined);
+  let equity = 1;
+  const values = [0];
+  for (const trade of trades) {
+    equity *= 1 + getTradePnl(trade)! / 100;
+    values.push((equity - 1) * 100);
+  }
+  const labels = ['start', ...trades.map((trade) => trade.exit?.time ?? trade.hedge?.closeTime ?? trade.timestamp)];
+  return renderLineChart('Cumulative return', values, labels, '%');
+}
+
+// Running share of legend candles whose threshold was reached
+function renderSuccessChart(results: ThresholdResult[]): string {
+  let successes = 0;
+  const values = results.map((r, i) => {
+    successes += r.success ? 1 : 0;
+    return (successes / (i + 1)) * 100;
+  });
+  return renderLineChart('Success rate', values, results.map((r) => r.timestamp), '%');
+}
+
+function renderSideBreakdown(results: ThresholdResult[]): string {
+  const allEntries = results.filter((r) => r.entry).length;
+  const rows = (['LONG', 'SHORT'] as const).map((side) => {
+    const entries = results.filter((r) => r.entry?.side === side);
+    const pnls = entries.map(getTradePnl).filter((pnl): pnl is number => pnl !== undefined);
+    const wins = pnls.filter((pnl) => pnl > 0).length;
+    const total = pnls.reduce((sum, pnl) => sum + pnl, 0);
+    const cells = [
+      side,
+      `${entries.length}`,
+      `${formatNumber(allEntries ? (entries.length / allEntries) * 100 : 0)}%`,
+      `${pnls.length}`,
+      `${formatNumber(pnls.length ? (wins / pnls.length) * 100 : 0)}%`,
+      `${formatNumber(pnls.length ? total / pnls.length : 0, 4)}%`,
+      `${formatNumber(total, 4)}%`,
+    ];
+    return `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`;
+  });
+  return `<h3>LONG vs SHORT</h3>
+<table>
+  <thead><tr><th>Side</th><th>Entries</th><th>Share of entries</th><th>Closed trades</th><th>Win rate</th><th>Avg return</th><th>Total return</th></tr></thead>
+  <tbody>${rows.join('')}</tbody>
+</table>`;
+}
+
+// Columns of the sortable trade table; the numeric sort key, when given,
+// overrides sorting by the cell text
+const TRADE_TABLE_COLUMNS: Array<[string, (r: ThresholdResult) => Cell, ((r: ThresholdResult) => number | undefined)?]> = [
+  ['#', (r) => r.Legend_Candle_no, (r) => r.Legend_Candle_no],
+  ['Legend time', (r) => r.timestamp],
+  ['Threshold %', (r) => r.LegendCandle.currentDynamicThreshold, (r) => parseFloat(r.LegendCandle.currentDynamicThreshold)],
+  ['Side', (r) => r.entry?.side],
+  ['Entry time', (r) => r.entry?.time],
+  ['Entry price', (r) => r.entry?.formatted_price, (r) => r.entry?.price],
+  ['Candles until threshold', (r) => r.entry?.candlesUntilThreshold, (r) => r.entry?.candlesUntilThreshold],
+  ['Exit', (r) => r.hedge?.closeReason ?? r.exit?.reason],
+  ['Exit time', (r) => r.hedge?.closeTime ?? r.exit?.time],
+  ['Return %', (r) => formatNumber(getTradePnl(r), 4), getTradePnl],
+  ['Success', (r) => (r.success ? 'yes' : 'no')],
+];
+
+function renderTradeTable(results: ThresholdResult[]): string {
+  const header = TRADE_TABLE_COLUMNS.map(([title], i) => `<th data-column="${i}">${escapeHtml(title)}</th>`).join('');
+  const rows = results
+    .map((r) => {
+      const cells = TRADE_TABLE_COLUMNS.map(([, read, sortKey]) => {
+        const key = sortKey?.(r);
+        const sortAttribute = key !== undefined && Number.isFinite(key) ? ` data-sort="${key}"` : '';
+        return `<td${sortAttribute}>${escapeHtml(read(r))}</td>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    })
+    .join('\n');
+  return `<h3>Trades</h3>
+<p class="hint">Click a column header to sort.</p>
+<table id="trades">
+  <thead><tr>${header}</tr></thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>`;
+}
+
+const REPORT_STYLE = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 24px auto; max-width: 1100px; color: #222; }
+h1 { margin-bottom: 4px; }
+.subtitle, .hint, .empty { color: #666; }
+.stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 8px; }
+.stat { background: #f4f6f8; border-radius: 6px; padding: 8px 12px; }
+.stat span { display: block; color: #666; font-size: 12px; }
+.stat strong { font-size: 18px; }
+svg { width: 100%; max-width: ${CHART_WIDTH}px; height: auto; font-size: 11px; fill: #555; }
+.axis { stroke: #aaa; }
+.line { fill: none; stroke: #2a6fdb; stroke-width: 1.5; }
+.bar { fill: #2a6fdb; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; margin-bottom: 16px; }
+th, td { border-bottom: 1px solid #e3e3e3; padding: 4px 8px; text-align: left; }
+#trades th { cursor: pointer; user-select: none; background: #f4f6f8; position: sticky; top: 0; }
+.warning { color: #a15c00; }
+`;
+
+// Sorts the trade table by the clicked column, toggling the direction;
+// cells with data-sort compare numerically and empty cells sort last
+const SORT_SCRIPT = `
+document.querySelectorAll('#trades th').forEach(function (th) {
+  th.addEventListener('click', function () {
+    var table = document.getElementById('trades');
+    var body = table.tBodies[0];
+    var column = Number(th.dataset.column);
+    var ascending = th.dataset.order !== 'asc';
+    table.querySelectorAll('th').forEach(function (other) { delete other.dataset.order; });
+    th.dataset.order = ascending ? 'asc' : 'desc';
+    var rows = Array.prototype.slice.call(body.rows);
+    rows.sort(function (a, b) {
+      var x = a.cells[column], y = b.cells[column];
+      var xEmpty = x.textContent === '' || x.textContent === '-', yEmpty = y.textContent === '' || y.textContent === '-';
+      if (xEmpty || yEmpty) return xEmpty === yEmpty ? 0 : xEmpty ? 1 : -1;
+      var result = x.dataset.sort !== undefined && y.dataset.sort !== undefined
+        ? Number(x.dataset.sort) - Number(y.dataset.sort)
+        : x.textContent.localeCompare(y.textContent);
+      return ascending ? result : -result;
+    });
+    rows.forEach(function (row) { body.appendChild(row); });
+  });
+});
+`;
+
+// Trade stats computed from the results the way the backtester does, for
+// results files written before the stats recorded them
+function deriveTradeStats(
+  results: ThresholdResult[]
+): Pick<BacktestStats, 'closedTrades' | 'winRate' | 'totalReturn' | 'averageWin' | 'averageLoss'> {
+  const trades = results.map(getTradePnl).filter((pnl): pnl is number => pnl !== undefined);
+  const wins = trades.filter((pnl) => pnl > 0);
+  const losses = trades.filter((pnl) => pnl <= 0);
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+  return {
+    closedTrades: trades.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    totalReturn: (trades.reduce((equity, pnl) => equity * (1 + pnl / 100), 1) - 1) * 100,
+    averageWin: average(wins),
+    averageLoss: average(losses),
+  };
+}
+
+// Single-file HTML report with inline styles, SVG charts and script, so it
+// opens offline and can be shared as one file
+export function buildHtmlReport(result: BacktestResult): string {
+  const results = getThresholdResults(result);
+  const title = `${result.symbol} ${result.timeframe} backtest`;
+  const stats = { ...deriveTradeStats(results), ...result.stats };
+  const statCards: Array<[string, string]> = [
+    ['Legend candles', `${stats.legendCandles}`],
+    ['Success rate', `${formatNumber(stats.successRate)}%`],
+    ['Closed trades', `${stats.closedTrades}`],
+    ['Win rate', `${formatNumber(stats.winRate)}%`],
+    ['Total return', `${formatNumber(stats.totalReturn, 4)}%`],
+    ['Average win', `${formatNumber(stats.averageWin, 4)}%`],
+    ['Average loss', `${formatNumber(stats.averageLoss, 4)}%`],
+  ];
+  if (stats.finalBalance !== undefined) {
+    statCards.push(['Final balance', formatNumber(stats.finalBalance)]);
+  }
+  if (result.metrics) {
+    statCards.push(
+      ['Max drawdown', `${formatNumber(result.metrics.maxDrawdown)}%`],
+      ['Sharpe (per trade)', formatNumber(result.metrics.sharpeRatio)]
+    );
+  }
+
+  const warnings = (result.warnings ?? [])
+    .map((warning) => `<li class="warning">${escapeHtml(warning)}</li>`)
+    .join('');
+  const candlesUntilThreshold = results
+    .map((r) => r.entry?.candlesUntilThreshold)
+    .filter((value): value is number => value !== undefined);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="subtitle">${escapeHtml(result.config.market.type)}${
+    result.config.market.type === 'futures' ? ` ${escapeHtml(result.config.market.subType)}` : ''
+  }, ${results.length} legend candles, ${candlesUntilThreshold.length} entries</p>
+${warnings ? `<ul>${warnings}</ul>` : ''}
+<div class="stats">${statCards
+    .map(([label, value]) => `<div class="stat"><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`)
+    .join('')}</div>
+${renderEquityChart(result, results)}
+${renderSuccessChart(results)}
+${renderDistribution(candlesUntilThreshold)}
+${renderSideBreakdown(results)}
+${renderTradeTable(results)}
+<script>${SORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// Writes TIMEFRAME_trades.csv and TIMEFRAME_report.html next to a results
+// file, or into outputDir when given
+export async function exportResults(
+  resultPath: string,
+  outputDir: string = path.dirname(resultPath)
+): Promise<{ csvPath: string; htmlPath: string }> {
+  const result: BacktestResult = JSON.parse(await fs.promises.readFile(resultPath, 'utf8'));
+  if (!Array.isArray(result.results) || !result.stats) {
+    throw new Error(`${resultPath} is not a backtest results file`);
+  }
+
+  const baseName = path.basename(resultPath, '.json').replace(/_results$/, '');
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const csvPath = path.join(outputDir, `${baseName}_trades.csv`);
+  const htmlPath = path.join(outputDir, `${baseName}_report.html`);
+  await fs.promises.writeFile(csvPath, buildTradeLogCsv(result));
+  await fs.promises.writeFile(htmlPath, buildHtmlReport(result));
+  return { csvPath, htmlPath };
+}
@@ -0,0 +1,338 @@
+import { CandleData, VolatilityMeasureName } from './interfaces';
+import { RollingWindow } from './indicators';
+
+// A volatility estimate (in percent) over the most recent `period` candles.
+// Candles are pushed in time order; `value` then describes the window that
+// precedes the next candle.
+export interface VolatilityMeasure {
+  readonly name: VolatilityMeasureName;
+  readonly value: number;
+  readonly isReady: boolean;
+  push(candle: CandleData): void;
+}
+
+function bodyPercent(candle: CandleData): number {
+  return Math.abs((candle.close - candle.open) / candle.open) * 100;
+}
+
+// Simple average of abs(close - open) / open, the original measure
+class BodySmaMeasure implements VolatilityMeasure {
+  public readonly name = 'bodySma';
+  private window: RollingWindow;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public push(candle: CandleData): void {
+    this.window.push(bodyPercent(candle));
+  }
+
+  public get value(): number {
+    return this.window.mean;
+  }
+
+  public get isReady(): boolean {
+    return this.window.isFull;
+  }
+}
+
+// Exponential average of the body percentage, seeded with the SMA of the
+// first `period` candles
+class BodyEmaMeasure implements VolatilityMeasure {
+  public readonly name = 'bodyEma';
+  private alpha: number;
+  private count = 0;
+  private ema = 0;
+
+  constructor(private period: number) {
+    this.alpha = 2 / (period + 1);
+  }
+
+  public push(candle: CandleData): void {
+    const body = bodyPercent(candle);
+    this.count++;
+    if (this.count <= this.period) {
+      this.ema += (body - this.ema) / this.count;
+    } else {
+      this.ema += this.alpha * (body - this.ema);
+    }
+  }
+
+  public get value(): number {
+    return this.ema;
+  }
+
+  public get isReady(): boolean {
+    return this.count >= this.period;
+  }
+}
+
+// Average true range as a percentage of the previous close
+class AtrPercentMeasure implements VolatilityMeasure {
+  public readonly name = 'atrPercent';
+  private window: RollingWindow;
+  private previousClose?: number;
+
+  constructor(private period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public push(candle: CandleData): void {
+    const reference = this.previousClose ?? candle.open;
+    const trueRange = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - reference),
+      Math.abs(candle.low - reference)
+    );
+    this.window.push((trueRange / reference) * 100);
+    this.previousClose = candle.close;
+  }
+
+  public get value(): number {
+    return this.window.mean;
+  }
+
+  public get isReady(): boolean {
+    return this.window.isFull;
+  }
+}
+
+// Average of (high - low) / open, which unlike the body includes wicks
+class HighLowRangeMeasure implements VolatilityMeasure {
+  public readonly name = 'highLowRange';
+  private window: RollingWindow;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public push(candle: CandleData): void {
+    this.window.push(((candle.high - candle.low) / candle.open) * 100);
+  }
+
+  public get value(): number {
+    return this.window.mean;
+  }
+
+  public get isReady(): boolean {
+    return this.window.isFull;
+  }
+}
+
+// Sample standard deviation of close-to-close returns
+class ReturnStdDevMeasure implements VolatilityMeasure {
+  public readonly name = 'returnStdDev';
+  private window: RollingWindow;
+  private previousClose?: number;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  public push(candle: CandleData): void {
+    if (this.previousClose !== undefined) {
+      this.window.push(((candle.close - this.previousClose) / this.previousClose) * 100);
+    }
+    this.previousClose = candle.close;
+  }
+
+  public get value(): number {
+    return this.window.stdDev;
+  }
+
+  public get isReady(): boolean {
+    return this.window.isFull;
+  }
+}
+
+interface HeapEntry {
+  value: number;
+  sequence: number;
+}
+
+// Binary heap ordered by `before`, e.g. (a, b) => a.value > b.value for a max-heap
+class Heap {
+  private entries: HeapEntry[] = [];
+
+  constructor(private before: (a: HeapEntry, b: HeapEntry) => boolean) {}
+
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  public peek(): HeapEntry | undefined {
+    return this.entries[0];
+  }
+
+  public push(entry: HeapEntry): void {
+    this.entries.push(entry);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  public pop(): HeapEntry | undefined {
+    const top = this.entries[0];
+    const last = this.entries.pop();
+    if (this.entries.length > 0 && last !== undefined) {
+      this.entries[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  // Keeps only the entries `keep` accepts
+  public filter(keep: (entry: HeapEntry) => boolean): void {
+    this.entries = this.entries.filter(keep);
+    for (let i = (this.entries.length >>> 1) - 1; i >= 0; i--) {
+      this.siftDown(i);
+    }
+  }
+
+  private siftUp(index: number): void {
+    const entries = this.entries;
+    while (index > 0) {
+      const parent = (index - 1) >>> 1;
+      if (!this.before(entries[index], entries[parent])) break;
+      [entries[index], entries[parent]] = [entries[parent], entries[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const entries = this.entries;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < entries.length && this.before(entries[left], entries[first])) first = left;
+      if (right < entries.length && this.before(entries[right], entries[first])) first = right;
+      if (first === index) return;
+      [entries[index], entries[first]] = [entries[first], entries[index]];
+      index = first;
+    }
+  }
+}
+
+const LOWER = 0;
+const UPPER = 1;
+
+// Median of the body percentage, robust to the outliers that legend candles
+// themselves introduce. A max-heap holds the lower half of the window and a
+// min-heap the upper half, so a candle costs O(log period). Evicted values
+// stay in their heap until they reach its top.
+class BodyMedianMeasure implements VolatilityMeasure {
+  public readonly name = 'bodyMedian';
+  private lower = new Heap((a, b) => a.value > b.value);
+  private upper = new Heap((a, b) => a.value < b.value);
+  private counts = [0, 0];
+  // Heap of each value in the window, by sequence % period
+  private sides: Uint8Array;
+  private sequence = 0;
+
+  constructor(private period: number) {
+    this.sides = new Uint8Array(period);
+  }
+
+  private isEvicted(entry: HeapEntry): boolean {
+    return entry.sequence < this.sequence - this.period;
+  }
+
+  private heap(side: number): Heap {
+    return side === LOWER ? this.lower : this.upper;
+  }
+
+  private prune(side: number): void {
+    const heap = this.heap(side);
+    while (heap.size > 0 && this.isEvicted(heap.peek()!)) {
+      heap.pop();
+    }
+    // Evicted values buried below the top would otherwise accumulate
+    if (heap.size > 2 * this.counts[side] + 64) {
+      heap.filter((entry) => !this.isEvicted(entry));
+    }
+  }
+
+  private add(side: number, entry: HeapEntry): void {
+    this.heap(side).push(entry);
+    this.sides[entry.sequence % this.period] = side;
+    this.counts[side]++;
+  }
+
+  private move(from: number, to: number): void {
+    const entry = this.heap(from).pop()!;
+    this.counts[from]--;
+    this.prune(from);
+    this.add(to, entry);
+  }
+
+  public push(candle: CandleData): void {
+    const entry = { value: bodyPercent(candle), sequence: this.sequence };
+    if (this.sequence >= this.period) {
+      const evictedSide = this.sides[this.sequence % this.period];
+      this.counts[evictedSide]--;
+    }
+    this.sequence++;
+    this.prune(LOWER);
+    this.prune(UPPER);
+
+    const lowerTop = this.lower.peek();
+    this.add(lowerTop === undefined || entry.value <= lowerTop.value ? LOWER : UPPER, entry);
+
+    // The lower half holds the middle value of an odd window
+    if (this.counts[LOWER] > this.counts[UPPER] + 1) {
+      this.move(LOWER, UPPER);
+    } else if (this.counts[UPPER] > this.counts[LOWER]) {
+      this.move(UPPER, LOWER);
+    }
+  }
+
+  public get value(): number {
+    const n = this.counts[LOWER] + this.counts[UPPER];
+    if (n === 0) return 0;
+    const lower = this.lower.peek()!.value;
+    return n % 2 === 1 ? lower : (lower + this.upper.peek()!.value) / 2;
+  }
+
+  public get isReady(): boolean {
+    return this.sequence >= this.period;
+  }
+}
+
+export const VOLATILITY_MEASURES: readonly VolatilityMeasureName[] = [
+  'bodySma',
+  'bodyEma',
+  'atrPercent',
+  'highLowRange',
+  'returnStdDev',
+  'bodyMedian',
+];
+
+// Candles to push before a measure's value covers a full window of `period`.
+// Returns need one candle more than they span.
+export function getWarmupCandles(name: VolatilityMeasureName, period: number): number {
+  return name === 'returnStdDev' ? period + 1 : period;
+}
+
+export function createVolatilityMeasure(
+  name: VolatilityMeasureName,
+  period: number
+): VolatilityMeasure {
+  switch (name) {
+    case 'bodySma':
+      return new BodySmaMeasure(period);
+    case 'bodyEma':
+      return new BodyEmaMeasure(period);
+    case 'atrPercent':
+      return new AtrPercentMeasure(period);
+    case 'highLowRange':
+      return new HighLowRangeMeasure(period);
+    case 'returnStdDev':
+      return new ReturnStdDevMeasure(period);
+    case 'bodyMedian':
+      return new BodyMedianMeasure(period);
+    default:
+      throw new Error(
+        `Unknown volatility measure: ${name}. Available: ${VOLATILITY_MEASURES.join(', ')}`
+      );
+  }
+}
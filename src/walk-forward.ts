@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import moment from 'moment';
+import config, { getResultsDirectory } from './config';
+import { Backtester } from './backtest';
+import { applyParameters, GridOptimizer } from './optimizer';
+import { calculatePerformanceMetrics, TradeRecord } from './metrics';
+import {
+  CandleData,
+  SymbolInfo,
+  TradingConfig,
+  WalkForwardConfig,
+  WalkForwardPeriod,
+  WalkForwardResult,
+  WalkForwardWindow,
+} from './interfaces';
+
+// Candle index boundaries of one in-sample / out-of-sample pair
+interface WindowBounds {
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleEnd: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Optimizes on each in-sample window, applies the winner to the following
+// out-of-sample window and stitches the out-of-sample trades together
+export class WalkForwardAnalyzer {
+  constructor(
+    private symbol: string,
+    private runConfig: TradingConfig = config
+  ) {}
+
+  private getWalkForwardConfig(): WalkForwardConfig {
+    const walkForward = this.runConfig.walkForward;
+    if (!walkForward) {
+      throw new Error('walkForward settings missing from config');
+    }
+    if (walkForward.inSample <= 0 || walkForward.outOfSample <= 0) {
+      throw new Error('walkForward inSample and outOfSample must be positive');
+    }
+    return walkForward;
+  }
+
+  // Splits the candles into windows, expressed as candle indices. Month
+  // boundaries follow the UTC calendar, like the monthly kline archives.
+  public buildWindows(candles: CandleData[]): WindowBounds[] {
+    const walkForward = this.getWalkForwardConfig();
+    const step = walkForward.step ?? walkForward.outOfSample;
+    const windows: WindowBounds[] = [];
+    if (candles.length === 0) return windows;
+
+    // Boundary k is the index of the first candle of unit k
+    let boundary: (k: number) => number;
+    if (walkForward.unit === 'candles') {
+      boundary = (k) => Math.min(k, candles.length);
+    } else {
+      const firstMonth = moment.utc(candles[0].openTime).startOf('month');
+      boundary = (k) => {
+        const monthStart = firstMonth.clone().add(k, 'months').valueOf();
+        const index = candles.findIndex((candle) => candle.openTime >= monthStart);
+        return index === -1 ? candles.length : index;
+      };
+    }
+
+    for (let k = 0; ; k += step) {
+      const inSampleStart = walkForward.mode === 'anchored' ? 0 : boundary(k);
+      const inSampleEnd = boundary(k + walkForward.inSample);
+      const outOfSampleEnd = boundary(k + walkForward.inSample + walkForward.outOfSample);
+
+      if (inSampleEnd >= candles.length) break;
+      windows.push({ inSampleStart, inSampleEnd, outOfSampleEnd });
+    }
+
+    return windows;
+  }
+
+  private describePeriod(candles: CandleData[], start: number, end: number): WalkForwardPeriod {
+    return {
+      start: moment(candles[start].openTime).format('YYYY-MM-DD HH:mm:ss'),
+      end: moment(candles[end - 1].openTime).format('YYYY-MM-DD HH:mm:ss'),
+      candles: end - start,
+    };
+  }
+
+  private annualise(totalReturn: number, candles: CandleData[], start: number, end: number): number {
+    const duration = candles[end - 1].closeTime - candles[start].openTime;
+    return duration > 0 ? totalReturn * (YEAR_MS / duration) : 0;
+  }
+
+  public async run(candles: CandleData[], symbolInfo: SymbolInfo): Promise<WalkForwardResult> {
+    const windows = this.buildWindows(candles);
+    if (windows.length === 0) {
+      throw new Error('Not enough candles for a single walk-forward window');
+    }
+
+    const objective = this.runConfig.optimizer?.objective ?? 'netReturn';
+    const optimizer = new GridOptimizer(this.symbol, this.runConfig);
+    const results: WalkForwardWindow[] = [];
+    const outOfSampleTrades: TradeRecord[] = [];
+    let annualisedInSample = 0;
+    let annualisedOutOfSample = 0;
+    let outOfSampleCandles = 0;
+    let exposedCandles = 0;
+
+    for (const [i, bounds] of windows.entries()) {
+      console.log(`\n=== Walk-forward window ${i + 1}/${windows.length} ===`);
+
+      const inSampleCandles = candles.slice(bounds.inSampleStart, bounds.inSampleEnd);
+      const [best] = await optimizer.evaluate(inSampleCandles, symbolInfo);
+      if (!best) {
+        throw new Error(`No parameter set evaluated for window ${i + 1}`);
+      }
+
+      // Prepend the lookback warmup so legend detection starts exactly at
+      // the first out-of-sample candle
+      const windowConfig = applyParameters(this.runConfig, best.parameters);
+      const backtester = new Backtester(this.symbol, windowConfig);
+      backtester.setSymbolInfo(symbolInfo);
+      const warmup = Math.min(backtester.getWarmupCandles(), bounds.inSampleEnd);
+      backtester.setCandles(candles.slice(bounds.inSampleEnd - warmup, bounds.outOfSampleEnd), warmup);
+      await backtester.findThresholds({ saveResults: false });
+
+      const outOfSampleStats = backtester.getStats();
+      outOfSampleTrades.push(...backtester.getTradeRecords());
+      outOfSampleCandles += bounds.outOfSampleEnd - bounds.inSampleEnd;
+      exposedCandles += backtester.getExposedCandles();
+
+      const inSampleAnnual = this.annualise(
+        best.stats.totalReturn, candles, bounds.inSampleStart, bounds.inSampleEnd
+      );
+      const outOfSampleAnnual = this.annualise(
+        outOfSampleStats.totalReturn, candles, bounds.inSampleEnd, bounds.outOfSampleEnd
+      );
+      annualisedInSample += inSampleAnnual;
+      annualisedOutOfSample += outOfSampleAnnual;
+
+      results.push({
+        window: i + 1,
+        inSample: this.describePeriod(candles, bounds.inSampleStart, bounds.inSampleEnd),
+        outOfSample: this.describePeriod(candles, bounds.inSampleEnd, bounds.outOfSampleEnd),
+        bestParameters: best.parameters,
+        inSampleObjective: best.objectiveValue,
+        inSampleReturn: best.stats.totalReturn,
+        outOfSampleStats,
+        efficiency: inSampleAnnual !== 0 ? outOfSampleAnnual / inSampleAnnual : null,
+      });
+    }
+
+    const metrics = calculatePerformanceMetrics(
+      outOfSampleTrades,
+      outOfSampleCandles > 0 ? (exposedCandles / outOfSampleCandles) * 100 : 0
+    );
+    const wins = outOfSampleTrades.filter((trade) => trade.pnlPercent > 0).length;
+    const result: WalkForwardResult = {
+      symbol: this.symbol,
+      timeframe: this.runConfig.singleBacktest.timeframe,
+      objective,
+      config: this.runConfig,
+      windows: results,
+      combined: {
+        trades: outOfSampleTrades.length,
+        winRate: outOfSampleTrades.length > 0 ? (wins / outOfSampleTrades.length) * 100 : 0,
+        totalReturn:
+          (outOfSampleTrades.reduce((equity, trade) => equity * (1 + trade.pnlPercent / 100), 1) - 1) * 100,
+        metrics,
+      },
+      walkForwardEfficiency:
+        annualisedInSample !== 0 ? annualisedOutOfSample / annualisedInSample : null,
+    };
+
+    await this.saveResults(result);
+    console.log(`\nWalk-forward complete: ${results.length} windows, OOS return ${result.combined.totalReturn.toFixed(2)}%, efficiency ${result.walkForwardEfficiency?.toFixed(2) ?? 'n/a'}`);
+    return result;
+  }
+
+  private async saveResults(result: WalkForwardResult): Promise<void> {
+    const resultsDir = path.join(getResultsDirectory(this.runConfig), this.symbol);
+    await fs.promises.mkdir(resultsDir, { recursive: true });
+
+    const resultPath = path.join(
+      resultsDir,
+      `${result.timeframe}_walkforward.json`
+    );
+    await fs.promises.writeFile(resultPath, JSON.stringify(result, null, 2));
+    console.log(`✅ Walk-forward results saved to ${resultPath}`);
+  }
+}